@@ -11,14 +11,96 @@ type RecipeType = {
     typeID: RecipeTypeIdentifier
     input: RecipeLocation
     output: RecipeLocation
+    // feed ingredients as space is made in the input, collecting outputs as they are produced
+    stream?: boolean
+    // seconds without progress before a step is considered stalled, overriding castlr.stallTimeout
+    timeout?: number
+    // the most recipes submitted at once, larger steps are split into batches
+    batch?: number
+    // map of role names to slot indexes in the input, for machines wired directly, such as { "fuel": 2 }
+    slots?: { [role: string]: number }
+    fuel?: FuelRequirement
     source: string
 }
+// fuel consumed by a recipe type, delivered alongside ingredients
+type FuelRequirement = {
+    // accepted fuels, in order of preference, with the number of recipes performed per item burnt
+    items: { name: string, value: number }[]
+    // an index in the input, or a role named in the recipe type's slots
+    slot?: number | string
+    // the inventory fuel is delivered to, if not the recipe type's input
+    input?: RecipeLocation
+}
+// an ingredient of a recipe, named by item ID or by a tag prefixed with "#", such as "#minecraft:planks"
+// a catalyst is supplied once per step and returned to storage afterwards
+// the slot is either an index in the recipe type's input, or a role named in the recipe type's slots
+type RecipeInput = SlotDetail & { catalyst?: boolean, slot?: number | string };
 type Recipe = {
     typeID: RecipeTypeIdentifier
-    input: SlotDetail[]
+    input: RecipeInput[]
     output: SlotDetail
+    // secondary outputs, a chance below 1 marks a byproduct that is not always produced
+    byproducts?: (SlotDetail & { chance?: number })[]
+    // preference when choosing between recipes with the same output, higher is preferred
+    priority?: number
     source: string
 }
+// a recipe, alongside the number of times it is to be performed, and the fuel to burn doing so
+type CraftingStep = Recipe & { count: number, fuel?: SlotDetail[] };
+// pending -> submitted (ingredients being moved) -> waiting (for outputs) -> collected
+type CraftingStepState = "pending" | "submitted" | "waiting" | "collected";
+type CraftingJobStep = {
+    recipe: CraftingStep
+    state: CraftingStepState
+    // indexes of the steps that produce this step's ingredients
+    dependsOn: number[]
+    // map of item names to the amount moved to storage so far
+    collected?: { [name: string]: number }
+    // the number of recipes submitted so far, for steps split into batches
+    submitted?: number
+}
+type CraftingJob = {
+    id: number
+    name: string
+    count: number
+    paused: boolean
+    // in the order they are performed
+    steps: CraftingJobStep[]
+    // map of item names to the amount reserved in storage for the job's remaining steps
+    reserved?: { [name: string]: number }
+    // the items delivered once finished, for jobs crafting several items, such as from a material list
+    order?: SlotDetail[]
+}
+// a node in the tree of a crafting plan, for an item taken from storage or crafted
+type PlanNode = {
+    name: string
+    // amount taken from storage
+    taken: number
+    // amount that must be inserted, as it is neither stored nor craftable
+    missing: number
+    // amount crafted, rounded up to a whole number of recipes
+    crafted: number
+    // whether the item is borrowed by its parent's recipe, rather than consumed
+    catalyst?: boolean
+    // whether the item is burnt as fuel by its parent's recipe
+    fuel?: boolean
+    recipe?: CraftingStep
+    children: PlanNode[]
+}
+// problems found with recipe or recipe type definitions, each alongside the file it was found in
+type DefinitionIssues = {
+    conflict: {
+        first: {path: string}
+        second: {path: string}
+        reason: string
+    }[]
+    invalid: {
+        path: string
+        // the field the issue was found in, such as "input[2].count", if any
+        field?: string
+        reason: string
+    }[]
+}
 type Settings = {
     period: number
     inputChest: RecipeLocation
@@ -26,4 +108,11 @@ type Settings = {
 }
 
 // map of index to count
-type SlotCounts = LuaMap<number, number>;
\ No newline at end of file
+type SlotCounts = LuaMap<number, number>;
+// the cached contents of an inventory, persisted between runs
+type InventoryIndex = {
+    size: number
+    itemLimit: number
+    // each occupied slot, as the list is sparse
+    items: (SlotDetail & { slot: number })[]
+}
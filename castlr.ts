@@ -1,6 +1,7 @@
 import {
+    readFile,
     writeFile,
-    splitString,
+    appendFile,
     getInput,
     correctableInput,
     namespaceValidator,
@@ -8,13 +9,29 @@ import {
     displayPages,
     stringCompletor,
     displaySearch,
+    displayScrollable,
     ProgressBar,
     getConsent,
     runMenu
 } from "./lib/utils";
 import { Data } from "./lib/data";
+import { Inventory, splitItemKey } from "./lib/inventory";
+import { DatapackImporter } from "./lib/datapack";
+import { getTypePath, getRecipeDirectory, getAvailableRecipePath, migrateLayout } from "./lib/layout";
+import { parseMaterialList, findItemByDisplayName } from "./lib/materials";
 import { expressionCompletor, expressionEvaluator, expressionValidator } from "./lib/expressions";
 
+// the outcome of performing a crafting step
+type StepResult = "collected" | "failed" | "aborted";
+// the action chosen by the user when a crafting step stalls
+type StallAction = "retry" | "skip" | "abort";
+// the stalled steps of a running job, prompted for one at a time by the job's coroutine, see runJob
+type StallQueue = {
+    requests: { step: CraftingJobStep, recipeType: RecipeType, timeout: number, action?: StallAction }[]
+    // whether the user is being prompted, during which progress bars are not drawn
+    prompting: boolean
+};
+
 const addDefinitionMenu = {
     T(instance: Data) {
         const invs = instance.storage.getInventoryNames();
@@ -27,43 +44,252 @@ const addDefinitionMenu = {
             [namespaceValidator],
             [, stringCompletor(invs), stringCompletor(invs)]
         );
-        const saveLocation = fs.combine("./types/", `${splitString(typeID, ":")[1]}.json`);
-        writeFile(saveLocation, textutils.serializeJSON({ typeID, input: inputChest, output: outputChest }));
-        fs.makeDir(`./recipes/${splitString(typeID, ":")[1]}`);
+        const stream = getConsent("Stream ingredients, for machines with small inputs?");
+        let batch = -1;
+        while (!(0 <= batch && batch <= 4096))
+            batch = tonumber(getInput("Enter - maximum recipes per batch (0 for no limit): ")) ?? -1;
+        // named slots allow machines expecting items in specific slots to be wired directly
+        let slots: { [role: string]: number } | undefined;
+        if (getConsent("Name input slots, such as fuel, for machines wired directly?")) {
+            let roleCount = -1;
+            while (!(0 < roleCount && roleCount < 10))
+                roleCount = tonumber(getInput("Enter - slot role count (1-9): ")) ?? -1;
+            const roleStrings = [];
+            const roleValidationFuncs: ((this: void, value: string) => boolean)[] = [];
+            for (let i = 0; i < roleCount; i++) {
+                roleStrings.push(`role ${i + 1} name`);
+                roleStrings.push(`role ${i + 1} slot`);
+
+                roleValidationFuncs.push((value: string) => value.length > 0 && tonumber(value) === undefined);
+                roleValidationFuncs.push(intValidator(1, 256));
+            }
+            const rolesRaw = correctableInput(roleStrings, roleValidationFuncs, []);
+            slots = {};
+            for (let i = 0; i < rolesRaw.length; i += 2)
+                slots[rolesRaw[i]] = tonumber(rolesRaw[i + 1]);
+        }
+        // fuel is delivered alongside ingredients, either to a slot of the input or to a separate inventory
+        let fuel: FuelRequirement | undefined;
+        if (getConsent("Does this type burn fuel?")) {
+            const items = instance.storage.getItemNames();
+            let fuelCount = -1;
+            while (!(0 < fuelCount && fuelCount < 10))
+                fuelCount = tonumber(getInput("Enter - accepted fuel count (1-9): ")) ?? -1;
+            const fuelStrings = [];
+            const fuelValidationFuncs: ((this: void, value: string) => boolean)[] = [];
+            const fuelCompletionFuncs = [];
+            for (let i = 0; i < fuelCount; i++) {
+                fuelStrings.push(`fuel ${i + 1} ID`);
+                fuelStrings.push(`fuel ${i + 1} recipes per item`);
+
+                fuelValidationFuncs.push(namespaceValidator);
+                fuelValidationFuncs.push((value: string) => (tonumber(value) ?? 0) > 0);
+
+                fuelCompletionFuncs[i * 2] = stringCompletor(items);
+            }
+            const fuelRaw = correctableInput(fuelStrings, fuelValidationFuncs, fuelCompletionFuncs);
+            const fuelItems = [];
+            for (let i = 0; i < fuelRaw.length; i += 2)
+                fuelItems.push({ name: fuelRaw[i], value: tonumber(fuelRaw[i + 1]) });
+            const roles: string[] = [];
+            for (const role in slots ?? {}) roles.push(role);
+            const [fuelSlot, fuelInput] = correctableInput(
+                ["fuel slot or role (blank for any)", "fuel inventory ID (blank for input chest)"],
+                [(value: string) => value === "" || intValidator(1, 256)(value) || roles.includes(value), (value: string) => value === "" || invs.includes(value)],
+                [stringCompletor(roles), stringCompletor(invs)]
+            );
+            fuel = {
+                items: fuelItems,
+                slot: fuelSlot === "" ? undefined : tonumber(fuelSlot) ?? fuelSlot,
+                input: fuelInput === "" ? undefined : fuelInput
+            };
+        }
+        const saveLocation = getTypePath(typeID);
+        writeFile(saveLocation, textutils.serializeJSON({ typeID, input: inputChest, output: outputChest, stream, batch: batch > 0 ? batch : undefined, slots, fuel }));
+        fs.makeDir(getRecipeDirectory(typeID));
     },
     R(instance: Data) {
-        const items = instance.storage.getItemNames();
+        const recipe = promptRecipe(instance);
+        // alternative recipes for the same item are saved alongside, with a numeric suffix
+        const saveLocation = getAvailableRecipePath(recipe.typeID, recipe.output.name);
+        writeFile(saveLocation, textutils.serialiseJSON(recipe));
+    },
+    L(instance: Data) {
         const recipeTypeStrs = instance.getRecipeTypeIDs();
-        const [typeID, outputItemID, outputItemCount] = correctableInput(
-            [
-                "namespaced recipe ID",
-                "output item ID",
-                "output item count"
-            ],
-            [namespaceValidator, namespaceValidator, intValidator(1, 64)],
-            [stringCompletor(recipeTypeStrs), stringCompletor(items)]
-        );
-        let inputCount = -1;
-        while (!(0 < inputCount && inputCount < 10))
-            inputCount = tonumber(getInput("Enter - recipe input count (1-9): ")) ?? -1;
-        const inputStrings = [];
-        const validationFuncs = [];
-        const completionFuncs = [];
-        for (let i = 0; i < inputCount; i++) {
-            inputStrings.push(`item ${i + 1} ID`);
-            inputStrings.push(`item ${i + 1} count`);
-
-            validationFuncs.push(namespaceValidator);
-            validationFuncs.push(intValidator(1, 64));
-
-            completionFuncs[i * 2] = stringCompletor(items);
+        const [typeID] = correctableInput(["recipe type to learn from"], [(value: string) => recipeTypeStrs.includes(value)], [stringCompletor(recipeTypeStrs)]);
+        const recipeType = instance.getRecipeType(typeID);
+        if (recipeType.input === "") {
+            print(`${typeID} has no input to observe.`);
+            return;
+        }
+        const disconnected = getDisconnectedInventories(instance, recipeType);
+        if (disconnected.length > 0) {
+            print(`Cannot learn from ${typeID}, ${table.concat(disconnected, ", ")} not connected!`);
+            return;
+        }
+        const inputChest = instance.storage.getInventory(recipeType.input);
+        const outputChest = instance.storage.getInventory(recipeType.output);
+        outputChest.syncData();
+        const outputBefore = countInventoryItems(outputChest);
+        getInput(`Insert the ingredients of one recipe into ${recipeType.input}, then press enter.`);
+        inputChest.syncData();
+        const inserted = countInventoryItems(inputChest);
+        if (inserted.isEmpty()) {
+            print(`No ingredients were found in ${recipeType.input}.`);
+            return;
+        }
+        // the machine is finished once items have been produced, and neither inventory has changed for a period
+        print(`Waiting for items in ${recipeType.output}..`);
+        const timeout: number = recipeType.timeout ?? settings.get("castlr.stallTimeout");
+        let produced = new LuaMap<string, number>();
+        let remaining = inserted;
+        let lastChangeTime = os.clock();
+        while (true) {
+            sleep(settings.get("castlr.period"));
+            inputChest.syncData();
+            outputChest.syncData();
+            const newProduced = diffItemCounts(countInventoryItems(outputChest), outputBefore);
+            const newRemaining = countInventoryItems(inputChest);
+            if (!diffItemCounts(newProduced, produced).isEmpty() || !diffItemCounts(produced, newProduced).isEmpty() || !diffItemCounts(remaining, newRemaining).isEmpty()) {
+                produced = newProduced;
+                remaining = newRemaining;
+                lastChangeTime = os.clock();
+            } else if (!produced.isEmpty()) break;
+            // a timeout of 0 waits until items are produced
+            if (timeout > 0 && os.clock() - lastChangeTime >= timeout) {
+                print(`Nothing was produced in ${recipeType.output} for ${timeout} seconds.`);
+                return;
+            }
+        }
+        // ingredients left in the input, or moved to the output, were not consumed, so are catalysts
+        const input: RecipeInput[] = [];
+        for (const [name, count] of inserted) {
+            const unconsumedCount = (remaining.get(name) ?? 0) + (produced.get(name) ?? 0);
+            if (unconsumedCount >= count) input.push({ name, count, catalyst: true });
+            else input.push({ name, count: count - unconsumedCount });
+        }
+        // the item produced the most is taken as the output, and any others as byproducts
+        const products: SlotDetail[] = [];
+        for (const [name, count] of produced)
+            if (!inserted.has(name)) products.push({ name, count });
+        if (products.length === 0) {
+            print("Only the ingredients were returned, so no output could be found.");
+            return;
+        }
+        table.sort(products, (a, b) => a.count > b.count);
+        const [output, ...byproducts] = products;
+        print("Please confirm the recipe observed.");
+        const recipe = promptRecipe(instance, { typeID, input, output, byproducts, priority: 0 });
+        const saveLocation = getAvailableRecipePath(recipe.typeID, recipe.output.name);
+        writeFile(saveLocation, textutils.serialiseJSON(recipe));
+        // the items produced, and any catalysts, are stored
+        const storages = instance.storage.getStoragesByType(StorageType.Storage);
+        for (const [name, count] of produced) instance.storage.moveItemFromOne(recipeType.output, storages, name, count);
+        for (const [name, count] of remaining) instance.storage.moveItemFromOne(recipeType.input, storages, name, count);
+    },
+    D(instance: Data) {
+        const path = getInput("Enter - datapack or recipe folder: ", {
+            completeFn: (partial: string) => fs.complete(partial, "", { include_dirs: true, include_files: false })
+        });
+        if (!fs.isDir(path)) {
+            print(`${path} is not a folder.`);
+            return;
+        }
+        const recipeTypeStrs = instance.getRecipeTypeIDs();
+        const importer = new DatapackImporter(instance, "./datapack_types.json");
+        const importedCount = importer.importDirectory(path, (datapackType: string) => {
+            print(`Recipes of type ${datapackType} are not mapped to a recipe type.`);
+            const [typeID] = correctableInput(
+                [`recipe type for ${datapackType} (blank to skip)`],
+                [(value: string) => value === "" || recipeTypeStrs.includes(value)],
+                [stringCompletor(recipeTypeStrs)]
+            );
+            return typeID;
+        });
+        print(`Imported ${importedCount} recipes.`);
+        const issueStrs = describeIssues(importer.issues);
+        if (issueStrs.length > 0) {
+            print("The following recipes were skipped:");
+            displayPages(issueStrs, false);
         }
-        const inputItemsRaw = correctableInput(inputStrings, validationFuncs, completionFuncs);
-        const inputItems = [];
-        for (let i = 0; i < inputItemsRaw.length; i += 2)
-            inputItems.push({ name: inputItemsRaw[i], count: tonumber(inputItemsRaw[i + 1]) });
-        const saveLocation = fs.combine("./recipes/", splitString(typeID, ":")[1], `${splitString(outputItemID, ":")[1]}.json`);
-        writeFile(saveLocation, textutils.serialiseJSON({ typeID, input: inputItems, output: { name: outputItemID, count: tonumber(outputItemCount) } }));
+    }
+} as { [index: string]: (this: void, instance: Data) => void };
+const manageDefinitionMenu = {
+    F(instance: Data) {
+        const recipeStrs: string[] = [];
+        for (const recipe of instance.getAllRecipes()) {
+            const inputStrs: string[] = [];
+            for (const item of recipe.input) inputStrs.push(`${item.name} x ${item.count}`);
+            recipeStrs.push(`${recipe.output.name} x ${recipe.output.count} <- ${table.concat(inputStrs, ", ")} via ${recipe.typeID} (${recipe.source})`);
+        }
+        table.sort(recipeStrs);
+        displaySearch(recipeStrs);
+    },
+    S(instance: Data) {
+        displayPages(describeRecipe(selectRecipe(instance)), false);
+    },
+    E(instance: Data) {
+        const recipe = selectRecipe(instance);
+        const editedRecipe = promptRecipe(instance, recipe);
+        // recipes are stored in the directory of their type
+        let saveLocation = recipe.source;
+        if (editedRecipe.typeID !== recipe.typeID) {
+            fs.delete(recipe.source);
+            saveLocation = getAvailableRecipePath(editedRecipe.typeID, editedRecipe.output.name);
+        }
+        writeFile(saveLocation, textutils.serialiseJSON(editedRecipe));
+    },
+    X(instance: Data) {
+        const recipe = selectRecipe(instance);
+        displayPages(describeRecipe(recipe), false);
+        if (getConsent("Delete this recipe?")) instance.deleteRecipe(recipe);
+    },
+    N(instance: Data) {
+        const recipeTypeStrs = instance.getRecipeTypeIDs();
+        const [typeID, newTypeID] = correctableInput(
+            ["recipe type to rename", "new namespaced recipe ID"],
+            [(value: string) => recipeTypeStrs.includes(value), (value: string) => namespaceValidator(value) && !recipeTypeStrs.includes(value)],
+            [stringCompletor(recipeTypeStrs)]
+        );
+        if (isTypeQueued(instance, typeID)) return;
+        instance.renameRecipeType(typeID, newTypeID);
+    },
+    C(instance: Data) {
+        // every file is checked when loading, so reloading reports all issues
+        instance.loadRecipeTypesFromDirectory("./types/");
+        let recipeCount = 0;
+        for (const _ of instance.getAllRecipes()) recipeCount++;
+        print(`Loaded ${instance.getRecipeTypeIDs().length} recipe types and ${recipeCount} recipes.`);
+        if (instance.issues.conflict.length === 0 && instance.issues.invalid.length === 0) print("No issues were found.");
+    },
+    D(instance: Data) {
+        const recipeTypeStrs = instance.getRecipeTypeIDs();
+        const [typeID] = correctableInput(
+            ["recipe type to delete"],
+            [(value: string) => recipeTypeStrs.includes(value)],
+            [stringCompletor(recipeTypeStrs)]
+        );
+        if (isTypeQueued(instance, typeID)) return;
+        let recipeCount = 0;
+        for (const recipe of instance.getAllRecipes())
+            if (recipe.typeID === typeID) recipeCount++;
+        if (getConsent(`Delete ${typeID} and its ${recipeCount} recipes?`)) instance.deleteRecipeType(typeID);
+    }
+} as { [index: string]: (this: void, instance: Data) => void };
+const jobMenu = {
+    R(instance: Data) {
+        const job = selectJob(instance);
+        instance.jobs.setPaused(job, false);
+        // a paused job may have been interrupted during submission
+        for (const step of instance.jobs.getStepsInState(job, "submitted"))
+            resetStep(instance, job, step);
+        runJob(instance, job);
+    },
+    P(instance: Data) {
+        instance.jobs.setPaused(selectJob(instance), true);
+    },
+    C(instance: Data) {
+        cancelJob(instance, selectJob(instance));
     }
 } as { [index: string]: (this: void, instance: Data) => void };
 const rootMenu = {
@@ -71,7 +297,7 @@ const rootMenu = {
         // gather data for input
         const outputChest = instance.storage.getInventory(settings.get("castlr.outputChest"));
         if (outputChest === undefined) {
-            error("Output chest not set! Please review installation instructions.", 1);
+            error("Output chest not set, or not connected! Please review installation instructions.", 1);
         }
         outputChest.syncData();
         const max = outputChest.getItemLimit(1) * outputChest.size();
@@ -85,69 +311,86 @@ const rootMenu = {
             [namespaceValidator, expressionValidator(1, max)],
             [stringCompletor(items), expressionCompletor]
         );
-        const [itemsUsed, recipeStack] = instance.gatherIngredients(name, expressionEvaluator(count));
-        const itemUseStrs = [];
-        const missingStrs = [];
-        const currentStoreStrs = [];
-        for (const [name, usedCount] of itemsUsed) {
-            if (usedCount !== 0) {
-                const strVal = `${name} x ${usedCount}`;
-                const storeCount = instance.storage.getTotalItemCount(name);
-                currentStoreStrs.push(`${name} x ${storeCount}`);
-                if (storeCount < usedCount) missingStrs.push(strVal);
-                itemUseStrs.push(strVal);
-            }
-        }
+        let craftCount = expressionEvaluator(count);
+        let [itemsUsed, recipeStack, planRoot, itemsBorrowed] = instance.gatherIngredients(name, craftCount);
+        let [itemUseStrs, missingStrs] = describeItemUse(instance, itemsUsed, itemsBorrowed);
         term.clear();
         term.setCursorPos(1, 1);
+        if (getConsent("View the crafting plan as a tree?")) displayPlanTree(instance, [planRoot]);
         if (missingStrs.length > 0) {
             print("Error: the following items must be inserted:");
             displayPages(missingStrs, false);
+            // offer to craft as many as storage allows instead
+            const [maxCount, limitingItem] = instance.getMaxCraftable(name);
+            print(`At most ${maxCount} can be crafted, limited by ${limitingItem}.`);
+            if (maxCount === 0 || !getConsent(`Craft ${name} x ${maxCount} instead?`)) return;
+            craftCount = maxCount;
+            [itemsUsed, recipeStack, planRoot, itemsBorrowed] = instance.gatherIngredients(name, craftCount);
+            [itemUseStrs, missingStrs] = describeItemUse(instance, itemsUsed, itemsBorrowed);
+            term.clear();
+            term.setCursorPos(1, 1);
+        }
+        if (!confirmPlan(instance, itemUseStrs, recipeStack)) return;
+        const job = instance.jobs.add(name, craftCount, recipeStack, itemsUsed);
+        runJob(instance, job);
+        sleep(settings.get("castlr.period"));
+    },
+    M(instance: Data) {
+        const outputChest = instance.storage.getInventory(settings.get("castlr.outputChest"));
+        if (outputChest === undefined) {
+            error("Output chest not set, or not connected! Please review installation instructions.", 1);
+        }
+        outputChest.syncData();
+        const path = getInput("Enter - material list file: ", {
+            completeFn: (partial: string) => fs.complete(partial, "", { include_dirs: true, include_files: true })
+        });
+        if (!fs.exists(path) || fs.isDir(path)) {
+            print(`${path} is not a file.`);
             return;
         }
-        print("The following items will be consumed:");
-        displayPages(itemUseStrs, false);
-        if (!getConsent("Is the above correct?")) return;
-        // reset for progress bar positioning
-        term.clear();
-        term.setCursorPos(1, 1);
-        while (recipeStack.length !== 0) {
-            const currentRecipe = recipeStack.pop();
-            const recipeType = instance.getRecipeType(currentRecipe.typeID);
-            if (recipeType === undefined) {
-                print(`Recipe to craft ${currentRecipe.output.name} not found!`);
-                return;
+        const materials = parseMaterialList(readFile(path));
+        if (materials.length === 0) {
+            print(`No materials were found in ${path}.`);
+            return;
+        }
+        // material lists give display names rather than item names
+        const craftableItems: string[] = [];
+        for (const recipe of instance.getAllRecipes())
+            craftableItems.push(recipe.output.name);
+        const items = instance.storage.getItemNames(craftableItems);
+        const order: SlotDetail[] = [];
+        let totalCount = 0;
+        for (const material of materials) {
+            let name = findItemByDisplayName(material.name, items, instance.storage);
+            if (name === undefined) {
+                print(`${material.name} is neither stored nor craftable.`);
+                [name] = correctableInput(
+                    [`item name for ${material.name} (blank to skip)`],
+                    [(value: string) => value === "" || namespaceValidator(value)],
+                    [stringCompletor(items)]
+                );
             }
-            const outputChest = instance.storage.getInventory(recipeType.output);
-            // submit items to crafter
-            // repeat (recipe mult) times, round robin to allow for recipes with specific order
-            // prevents overload of too many of the same item preventing the recipe being completed
-            let repeatCount = 1;
-            let countMultiplier = currentRecipe.count;
-            if (currentRecipe.input.length > 1) {
-                repeatCount = currentRecipe.count;
-                countMultiplier = 1;
+            if (name !== "") {
+                const existingItem = order.find(item => item.name === name);
+                if (existingItem !== undefined) existingItem.count += material.count;
+                else order.push({ name, count: material.count });
+                totalCount += material.count;
             }
-            const targetItem = { name: currentRecipe.output.name, count: currentRecipe.output.count * currentRecipe.count };
-            write(`Crafting: ${targetItem.name} x ${targetItem.count} `);
-            const bar = new ProgressBar();
-            for (const _ of $range(1, repeatCount))
-                for (const inputItem of currentRecipe.input)
-                    if (instance.storage.moveItemFromMany(instance.storage.getStoragesByType(StorageType.NotInput), recipeType.input, inputItem.name, inputItem.count * countMultiplier) < inputItem.count * countMultiplier) {
-                        print(`Error crafting ${currentRecipe.output.name}`);
-                        sleep(settings.get("castlr.period"));
-                        return;
-                    }
-
-            let currentCount;
-            do {
-                outputChest.syncData();
-                currentCount = outputChest.getItemCount(targetItem.name);
-                bar.setProgress(currentCount / targetItem.count);
-            } while (currentCount < targetItem.count);
-        }
-        instance.storage.moveItemFromMany(instance.storage.getStoragesByType(StorageType.NotInput), settings.get("castlr.outputChest"), name, expressionEvaluator(count));
-        print(`Crafted ${name} x ${count}`);
+        }
+        if (order.length === 0) return;
+        const [itemsUsed, recipeStack, planRoots, itemsBorrowed] = instance.gatherOrderIngredients(order);
+        const [itemUseStrs, missingStrs] = describeItemUse(instance, itemsUsed, itemsBorrowed);
+        term.clear();
+        term.setCursorPos(1, 1);
+        if (getConsent("View the crafting plan as a tree?")) displayPlanTree(instance, planRoots);
+        if (missingStrs.length > 0) {
+            print("Error: the following items must be inserted:");
+            displayPages(missingStrs, false);
+            return;
+        }
+        if (!confirmPlan(instance, itemUseStrs, recipeStack)) return;
+        const job = instance.jobs.add(fs.getName(path), totalCount, recipeStack, itemsUsed, order);
+        runJob(instance, job);
         sleep(settings.get("castlr.period"));
     },
     A(instance: Data) {
@@ -155,6 +398,8 @@ const rootMenu = {
             "Which would you like to add?",
             "   T - add new type.",
             "   R - add new recipe.",
+            "   L - learn a recipe by observing a machine.",
+            "   D - import recipes from a datapack.",
             "Entry to add: "
         ];
         const process = runMenu(submenuText, addDefinitionMenu);
@@ -166,7 +411,7 @@ const rootMenu = {
     S(instance: Data) {
         const inputChest = instance.storage.getInventory(settings.get("castlr.inputChest"));
         if (inputChest === undefined) {
-            error("Input chest not set! Please review installation instructions.", 1);
+            error("Input chest not set, or not connected! Please review installation instructions.", 1);
         }
         inputChest.syncData();
         const [freeSlots, totalSlots] = instance.storage.getTotalCapacity();
@@ -191,7 +436,7 @@ const rootMenu = {
             ["item name"],
             [(name: string) => {
                 const max = instance.storage.getTotalItemCount(name);
-                print(`${max} x ${name} stored.`);
+                print(`${max} x ${describeItem(instance, name)} available.`);
                 return namespaceValidator(name);
             }],
             [stringCompletor(items)]
@@ -205,15 +450,978 @@ const rootMenu = {
     },
     L(instance: Data) {
         const map = instance.storage.getAllItems();
+        // list items that can be crafted, even if none are stored
+        for (const recipe of instance.getAllRecipes())
+            if (!map.has(recipe.output.name)) map.set(recipe.output.name, 0);
+        // items with several variants are also listed by name alone, totalling every variant
+        const variantTotals = new LuaMap<string, number>();
+        for (const [key, count] of map) {
+            const [name, nbt] = splitItemKey(key);
+            if (nbt !== undefined) variantTotals.set(name, (variantTotals.get(name) ?? 0) + count);
+        }
         const strings: string[] = []
-        for (const [name, count] of map)
-            strings.push(`${name} x ${count}`);
+        // lines for items with a recipe, by the item key to find the craftable amount of
+        const craftableKeys = new LuaMap<string, string>();
+        for (const [name, count] of variantTotals)
+            strings.push(`${name} (any variant) x ${count + (map.get(name) ?? 0)}`);
+        for (const [key, count] of map) {
+            const name = describeItem(instance, key);
+            // reserved items are still stored, but are set aside for queued crafting jobs
+            const reservedCount = instance.storage.getReservedCount(key);
+            const reservedStr = reservedCount > 0 ? ` (reserved: ${reservedCount})` : "";
+            const line = `${name} x ${count}${reservedStr}`;
+            if (instance.getRecipes(key).length > 0) craftableKeys.set(line, key);
+            strings.push(line);
+        }
+        // the amount craftable takes many plans to find, so is only found for the lines displayed
+        displaySearch(strings, true, (line: string) => {
+            const key = craftableKeys.get(line);
+            if (key === undefined) return line;
+            return `${line} (craftable: ${instance.getMaxCraftable(key)[0]})`;
+        });
+    },
+    I(instance: Data) {
+        const strings: string[] = [];
+        for (const name of instance.storage.getInventoryNames()) {
+            const inventory = instance.storage.getInventory(name);
+            if (inventory === undefined) continue;
+            const usedSlots = inventory.size() - inventory.getFreeSlotCount();
+            strings.push(`${name}: ${usedSlots} / ${inventory.size()} slots used, verified ${describeVerified(inventory.getLastVerified())}`);
+        }
+        table.sort(strings);
         displaySearch(strings);
     },
+    D(instance: Data) {
+        const submenuText = [
+            "Which would you like to do?",
+            "   F - find recipes by output, input or type.",
+            "   S - show a recipe.",
+            "   E - edit a recipe.",
+            "   X - delete a recipe.",
+            "   N - rename a type.",
+            "   D - delete a type and its recipes.",
+            "   C - check all definitions for issues.",
+            "Action to take: "
+        ];
+        const process = runMenu(submenuText, manageDefinitionMenu);
+        if (process === undefined) return;
+        process(instance);
+        instance.loadRecipeTypesFromDirectory("./types/");
+        const issueStrs = describeIssues(instance.issues);
+        if (issueStrs.length > 0) {
+            print("The following must be resolved before using CASTLR:");
+            displayPages(issueStrs, false);
+        }
+    },
+    J(instance: Data) {
+        const jobs = instance.jobs.getJobs();
+        if (jobs.length === 0) {
+            print("No crafting jobs are queued.");
+            return;
+        }
+        const submenuText = ["Queued crafting jobs:"];
+        for (const job of jobs)
+            submenuText.push(`   ${job.id}: ${describeJob(instance, job)}`);
+        submenuText.push(
+            "Which would you like to do?",
+            "   R - resume a job.",
+            "   P - pause a job.",
+            "   C - cancel a job.",
+            "Action to take: "
+        );
+        const process = runMenu(submenuText, jobMenu);
+        if (process !== undefined) process(instance);
+    },
     R(instance: Data) {
         instance.init();
+        instance.storage.verifyAll();
     }
 } as { [index: string]: (this: void, instance: Data) => void };
+/**
+ * Prompts the user for each field of a recipe, pre-filled from an existing recipe when editing.
+ * @param instance The CASTLR data instance.
+ * @param existing The recipe to pre-fill each field from, if any.
+ * @returns The recipe entered, without its source.
+ */
+function promptRecipe(instance: Data, existing?: Omit<Recipe, "source">): Omit<Recipe, "source"> {
+    const items = instance.storage.getItemNames();
+    const recipeTypeStrs = instance.getRecipeTypeIDs();
+    const [typeID, outputItemID, outputItemCount, priority] = correctableInput(
+        [
+            "namespaced recipe ID",
+            "output item ID",
+            "output item count",
+            "recipe priority (0-9)"
+        ],
+        [namespaceValidator, namespaceValidator, intValidator(1, 64), intValidator(0, 9)],
+        [stringCompletor(recipeTypeStrs), stringCompletor(items)],
+        existing === undefined ? [] : [existing.typeID, existing.output.name, tostring(existing.output.count), tostring(existing.priority ?? 0)]
+    );
+    let inputCount = -1;
+    while (!(0 < inputCount && inputCount < 10))
+        inputCount = tonumber(getInput("Enter - recipe input count (1-9): ", { presetInput: existing === undefined ? undefined : tostring(existing.input.length) })) ?? -1;
+    const inputStrings = [];
+    const validationFuncs = [];
+    const completionFuncs = [];
+    const inputPresets: string[] = [];
+    for (let i = 0; i < inputCount; i++) {
+        inputStrings.push(`item ${i + 1} ID`);
+        inputStrings.push(`item ${i + 1} count`);
+
+        validationFuncs.push(namespaceValidator);
+        validationFuncs.push(intValidator(1, 64));
+
+        completionFuncs[i * 2] = stringCompletor(items);
+
+        const existingInput = existing?.input[i];
+        inputPresets.push(existingInput?.name ?? "", existingInput === undefined ? "" : tostring(existingInput.count));
+    }
+    const inputItemsRaw = correctableInput(inputStrings, validationFuncs, completionFuncs, inputPresets);
+    const inputItems: RecipeInput[] = [];
+    for (let i = 0; i < inputItemsRaw.length; i += 2)
+        inputItems.push({ name: inputItemsRaw[i], count: tonumber(inputItemsRaw[i + 1]) });
+    // inputs kept when editing are pre-filled with their previous catalyst and slot, by position as an item may be used at several
+    const findExistingInput = (i: number) => {
+        const existingInput = existing?.input[i];
+        return existingInput?.name === inputItems[i].name ? existingInput : undefined;
+    }
+    // catalysts, such as molds or tools, are returned to storage rather than consumed
+    if (getConsent("Are any inputs catalysts, not consumed by the recipe?", existing?.input.some(item => item.catalyst === true)))
+        for (const i of $range(0, inputItems.length - 1)) {
+            const existingInput = findExistingInput(i);
+            if (getConsent(`Is item ${i + 1} (${inputItems[i].name}) a catalyst?`, existingInput === undefined ? undefined : existingInput.catalyst === true)) inputItems[i].catalyst = true;
+        }
+    // inputs can be placed by slot number, or by a role named by the recipe type
+    if (getConsent("Place inputs in specific slots of the machine?", existing?.input.some(item => item.slot !== undefined))) {
+        const roles: string[] = [];
+        for (const role in instance.getRecipeType(typeID)?.slots ?? {}) roles.push(role);
+        const slotStrings = [];
+        const slotValidationFuncs: ((this: void, value: string) => boolean)[] = [];
+        const slotCompletionFuncs = [];
+        const slotPresets: string[] = [];
+        for (const i of $range(0, inputItems.length - 1)) {
+            slotStrings.push(`item ${i + 1} (${inputItems[i].name}) slot or role (blank for any)`);
+            slotValidationFuncs.push((value: string) => value === "" || intValidator(1, 256)(value) || roles.includes(value));
+            slotCompletionFuncs.push(stringCompletor(roles));
+            const existingSlot = findExistingInput(i)?.slot;
+            slotPresets.push(existingSlot === undefined ? "" : tostring(existingSlot));
+        }
+        const slotsRaw = correctableInput(slotStrings, slotValidationFuncs, slotCompletionFuncs, slotPresets);
+        for (const i of $range(0, inputItems.length - 1))
+            if (slotsRaw[i] !== "") inputItems[i].slot = tonumber(slotsRaw[i]) ?? slotsRaw[i];
+    }
+    let byproductCount = -1;
+    while (!(0 <= byproductCount && byproductCount < 10))
+        byproductCount = tonumber(getInput("Enter - recipe byproduct count (0-9): ", { presetInput: existing === undefined ? undefined : tostring(existing.byproducts?.length ?? 0) })) ?? -1;
+    const byproducts: (SlotDetail & { chance?: number })[] = [];
+    if (byproductCount > 0) {
+        const byproductStrings = [];
+        const byproductValidationFuncs = [];
+        const byproductCompletionFuncs = [];
+        const byproductPresets: string[] = [];
+        for (let i = 0; i < byproductCount; i++) {
+            byproductStrings.push(`byproduct ${i + 1} ID`);
+            byproductStrings.push(`byproduct ${i + 1} count`);
+
+            byproductValidationFuncs.push(namespaceValidator);
+            byproductValidationFuncs.push(intValidator(1, 64));
+
+            byproductCompletionFuncs[i * 2] = stringCompletor(items);
+
+            const existingByproduct = existing?.byproducts?.[i];
+            byproductPresets.push(existingByproduct?.name ?? "", existingByproduct === undefined ? "" : tostring(existingByproduct.count));
+        }
+        const byproductsRaw = correctableInput(byproductStrings, byproductValidationFuncs, byproductCompletionFuncs, byproductPresets);
+        for (let i = 0; i < byproductsRaw.length; i += 2) {
+            // the chance of a byproduct cannot be entered, so is kept from the existing recipe
+            const chance = existing?.byproducts?.find(item => item.name === byproductsRaw[i])?.chance;
+            byproducts.push({ name: byproductsRaw[i], count: tonumber(byproductsRaw[i + 1]), chance });
+        }
+    }
+    return { typeID, input: inputItems, output: { name: outputItemID, count: tonumber(outputItemCount) }, byproducts, priority: tonumber(priority) };
+}
+/**
+ * Describes an item for display, including its display name where it is a specific variant, such as an enchanted book.
+ * @param instance The CASTLR data instance, to read display names from storage.
+ * @param key The item key, as given by {@link getItemKey}, or an item name alone.
+ * @returns The item key, followed by its display name where it has NBT.
+ */
+function describeItem(instance: Data, key: string) {
+    const [, nbt] = splitItemKey(key);
+    if (nbt === undefined) return key;
+    const displayName = instance.storage.getDisplayName(key);
+    return displayName === undefined ? key : `${key} (${displayName})`;
+}
+/**
+ * Counts the items in an inventory, as of its last synchronisation.
+ * @param inventory The inventory to count the items of.
+ * @returns A map of item keys to the amount in the inventory.
+ */
+function countInventoryItems(inventory: Inventory): LuaMap<string, number> {
+    const counts = new LuaMap<string, number>();
+    for (const [name] of inventory.getSlots()) {
+        const count = inventory.getItemCount(name);
+        if (count > 0) counts.set(name, count);
+    }
+    return counts;
+}
+/**
+ * Finds the items gained between two counts of an inventory.
+ * @param after The later counts, as given by {@link countInventoryItems}.
+ * @param before The earlier counts.
+ * @returns A map of item names to the amount gained, excluding items not gained.
+ */
+function diffItemCounts(after: LuaMap<string, number>, before: LuaMap<string, number>): LuaMap<string, number> {
+    const gained = new LuaMap<string, number>();
+    for (const [name, count] of after) {
+        const gainedCount = count - (before.get(name) ?? 0);
+        if (gainedCount > 0) gained.set(name, gainedCount);
+    }
+    return gained;
+}
+/**
+ * Prompts the user to select one of the loaded recipes, by the path it was loaded from.
+ * @param instance The CASTLR data instance.
+ * @returns The selected recipe.
+ */
+function selectRecipe(instance: Data): Recipe {
+    const sources: string[] = [];
+    for (const recipe of instance.getAllRecipes())
+        sources.push(recipe.source);
+    const [source] = correctableInput(["recipe path"], [(path: string) => sources.includes(path)], [stringCompletor(sources)]);
+    for (const recipe of instance.getAllRecipes())
+        if (recipe.source === source) return recipe;
+}
+/**
+ * Describes each field of a recipe for display.
+ * @param recipe The recipe to describe.
+ * @returns The lines describing the recipe.
+ */
+function describeRecipe(recipe: Recipe): string[] {
+    const lines = [
+        `Path: ${recipe.source}`,
+        `Type: ${recipe.typeID}`,
+        `Output: ${recipe.output.name} x ${recipe.output.count}`,
+        `Priority: ${recipe.priority ?? 0}`,
+        "Inputs:"
+    ];
+    for (const item of recipe.input) {
+        let line = `  ${item.name} x ${item.count}`;
+        if (item.catalyst) line += " (returned)";
+        if (item.slot !== undefined) line += ` (slot ${item.slot})`;
+        lines.push(line);
+    }
+    if ((recipe.byproducts ?? []).length > 0) {
+        lines.push("Byproducts:");
+        for (const byproduct of recipe.byproducts) {
+            const chanceStr = byproduct.chance !== undefined && byproduct.chance < 1 ? ` (${byproduct.chance * 100}% chance)` : "";
+            lines.push(`  ${byproduct.name} x ${byproduct.count}${chanceStr}`);
+        }
+    }
+    return lines;
+}
+/**
+ * Determines whether a recipe type is used by a queued crafting job, reporting it to the user if so.
+ * Such types cannot be renamed or deleted, as the job's steps refer to the type by its ID.
+ * @param instance The CASTLR data instance.
+ * @param typeID The recipe type to check.
+ * @returns Whether the type is used by a queued job.
+ */
+function isTypeQueued(instance: Data, typeID: RecipeTypeIdentifier): boolean {
+    for (const job of instance.jobs.getJobs())
+        for (const step of job.steps)
+            if (step.recipe.typeID === typeID) {
+                print(`${typeID} is used by crafting job ${job.id}. Finish or cancel it first.`);
+                return true;
+            }
+    return false;
+}
+/**
+ * Describes issues found with definitions for display, with each issue followed by its reason.
+ * @param issues The issues to describe, such as {@link Data.issues}.
+ * @returns The lines describing each issue.
+ */
+function describeIssues(issues: DefinitionIssues): string[] {
+    const pagableStrings: string[] = [];
+    for (const conflict of issues.conflict) {
+        pagableStrings.push("'" + conflict.first.path + "' conflicts with '" + conflict.second.path + "'");
+        pagableStrings.push("Reason: " + conflict.reason);
+    }
+    for (const invalid of issues.invalid) {
+        if (invalid.field !== undefined && invalid.field !== "") pagableStrings.push("'" + invalid.path + "' is invalid at '" + invalid.field + "'.");
+        else pagableStrings.push("'" + invalid.path + "' is invalid.");
+        pagableStrings.push("Reason: " + invalid.reason);
+    }
+    return pagableStrings;
+}
+/**
+ * Describes the items used by a crafting plan, and those that must be inserted.
+ * @param instance The CASTLR data instance.
+ * @param itemsUsed A map of item names to the amount used, as given by {@link Data.gatherIngredients}.
+ * @param itemsBorrowed A map of catalyst names to the amount borrowed, as given by {@link Data.gatherIngredients}.
+ * @returns The items to be used, as strings, with catalysts marked as returned.
+ * @returns The items that must be inserted, as strings.
+ */
+function describeItemUse(instance: Data, itemsUsed: LuaMap<string, number>, itemsBorrowed: LuaMap<string, number>): LuaMultiReturn<[string[], string[]]> {
+    const itemUseStrs = [];
+    const missingStrs = [];
+    for (const [name, usedCount] of itemsUsed) {
+        if (usedCount !== 0) {
+            const borrowedCount = math.min(itemsBorrowed.get(name) ?? 0, usedCount);
+            let strVal = `${name} x ${usedCount}`;
+            if (borrowedCount === usedCount) strVal += " (returned)";
+            else if (borrowedCount > 0) strVal += ` (${borrowedCount} returned)`;
+            if (instance.storage.getTotalItemCount(name) < usedCount) missingStrs.push(strVal);
+            itemUseStrs.push(strVal);
+        }
+    }
+    return $multi(itemUseStrs, missingStrs);
+}
+/**
+ * Displays the items a crafting plan will use, alongside the recipes chosen where there was a choice, for the user to confirm.
+ * @param instance The CASTLR data instance.
+ * @param itemUseStrs The items used, as given by {@link describeItemUse}.
+ * @param recipeStack The recipes to perform, as given by {@link Data.gatherIngredients}.
+ * @returns Whether the user confirmed the plan.
+ */
+function confirmPlan(instance: Data, itemUseStrs: string[], recipeStack: CraftingStep[]): boolean {
+    print("The following items will be used:");
+    displayPages(itemUseStrs, false);
+    // show which recipe was chosen, where there was a choice
+    const alternativeStrs = [];
+    for (const recipe of recipeStack)
+        if (instance.getRecipes(recipe.output.name).length > 1)
+            alternativeStrs.push(`${recipe.output.name} via ${recipe.typeID} (${recipe.source})`);
+    if (alternativeStrs.length > 0) {
+        print("The following recipes were chosen:");
+        displayPages(alternativeStrs, false);
+    }
+    return getConsent("Is the above correct?");
+}
+/**
+ * Displays a crafting plan as a scrollable tree, with a footer of totals.
+ * Each node shows the amount crafted and taken from storage, alongside the recipe type and machine used.
+ * @param instance The CASTLR data instance.
+ * @param roots The roots of the plan's tree, one per item crafted, as given by {@link Data.gatherOrderIngredients}.
+ */
+function displayPlanTree(instance: Data, roots: PlanNode[]): void {
+    const lines: string[] = [];
+    let totalCrafts = 0;
+    let totalTaken = 0;
+    let totalMissing = 0;
+    const addNode = (node: PlanNode, depth: number) => {
+        const indent = "  ".repeat(depth);
+        const label = node.catalyst ? `${node.name} (returned)` : node.fuel ? `${node.name} (fuel)` : node.name;
+        totalTaken += node.taken;
+        totalMissing += node.missing;
+        if (node.recipe !== undefined) {
+            totalCrafts++;
+            const recipeType = instance.getRecipeType(node.recipe.typeID);
+            lines.push(`${indent}${label}: craft ${node.crafted}, take ${node.taken}`);
+            lines.push(`${indent}  using ${node.recipe.typeID} at ${recipeType?.input ?? "?"}`);
+        } else if (node.missing > 0) {
+            lines.push(`${indent}${label}: take ${node.taken}, missing ${node.missing}`);
+        } else lines.push(`${indent}${label}: take ${node.taken}`);
+        for (const child of node.children) addNode(child, depth + 1);
+    }
+    for (const root of roots) addNode(root, 0);
+    displayScrollable(lines, [
+        "-".repeat(term.getSize()[0]),
+        `Crafts: ${totalCrafts}, taken: ${totalTaken}, missing: ${totalMissing}`
+    ]);
+}
+/**
+ * Describes the output of a crafting job: its item and amount, or the name of its order and number of items ordered.
+ * @param job The job to describe.
+ * @returns The output of the job.
+ */
+function describeJobOutput(job: CraftingJob): string {
+    if (job.order !== undefined) return `${job.name} (${job.order.length} items)`;
+    return `${job.name} x ${job.count}`;
+}
+/**
+ * Summarises a crafting job for display: its output, and how many steps have been collected.
+ * @param instance The CASTLR data instance.
+ * @param job The job to describe.
+ * @returns A single line describing the job.
+ */
+function describeJob(instance: Data, job: CraftingJob): string {
+    const collectedCount = instance.jobs.getStepsInState(job, "collected").length;
+    const pausedStr = job.paused ? " (paused)" : "";
+    return `${describeJobOutput(job)} - ${collectedCount} of ${job.steps.length} steps collected${pausedStr}`;
+}
+/**
+ * Prompts the user to select one of the queued crafting jobs, by its ID.
+ * @param instance The CASTLR data instance.
+ * @returns The selected job.
+ */
+function selectJob(instance: Data): CraftingJob {
+    const jobIDs: string[] = [];
+    for (const job of instance.jobs.getJobs())
+        jobIDs.push(tostring(job.id));
+    const [jobID] = correctableInput(["job ID"], [(id: string) => jobIDs.includes(id)], [stringCompletor(jobIDs)]);
+    for (const job of instance.jobs.getJobs())
+        if (tostring(job.id) === jobID) return job;
+}
+/**
+ * Moves any ingredients or unburnt fuel of a step that remain in its recipe type's input back into storage.
+ * Catalysts are also taken back from its recipe type's output, where machines may place them once finished.
+ * @param instance The CASTLR data instance.
+ * @param job The job containing the step, reserving any items returned to storage.
+ * @param step The step to roll back or finish.
+ */
+function returnStepInputs(instance: Data, job: CraftingJob, step: CraftingJobStep): void {
+    const recipeType = instance.getRecipeType(step.recipe.typeID);
+    if (recipeType === undefined) return;
+    const returnItems = (location: string, items: SlotDetail[]) => {
+        const inventory = location === "" ? undefined : instance.storage.getInventory(location);
+        if (inventory === undefined) return;
+        inventory.syncData();
+        for (const item of items) {
+            const itemCount = inventory.getItemCount(item.name);
+            if (itemCount > 0) {
+                instance.storage.moveItemFromOne(location, instance.storage.getStoragesByType(StorageType.Storage), item.name, itemCount);
+                // returned items are still needed by the job
+                instance.jobs.reserve(job, item.name, itemCount - inventory.getItemCount(item.name));
+            }
+        }
+    }
+    returnItems(recipeType.input, step.recipe.input);
+    returnItems(recipeType.fuel?.input ?? recipeType.input, step.recipe.fuel ?? []);
+    const [, catalysts] = splitRecipeInputs(step.recipe);
+    returnItems(recipeType.output, catalysts);
+}
+/**
+ * Returns an interrupted step to pending, so that it is submitted again when its job resumes.
+ * Ingredients left in its recipe type's input are returned to storage.
+ * Steps are reduced to craft only the outputs that have not yet been collected, such as those of earlier batches.
+ * @param instance The CASTLR data instance.
+ * @param job The job containing the step.
+ * @param step The step to reset.
+ */
+function resetStep(instance: Data, job: CraftingJob, step: CraftingJobStep): void {
+    returnStepInputs(instance, job, step);
+    // the interrupted batch was returned, and earlier batches are accounted for by the outputs collected
+    step.submitted = undefined;
+    if (step.collected !== undefined) {
+        const recipe = step.recipe;
+        const remaining = recipe.output.count * recipe.count - (step.collected[recipe.output.name] ?? 0);
+        const previousCount = recipe.count;
+        recipe.count = math.max(0, math.ceil(remaining / recipe.output.count));
+        for (const fuel of recipe.fuel ?? [])
+            fuel.count = math.ceil(fuel.count * recipe.count / previousCount);
+        step.collected = undefined;
+        if (recipe.count === 0) {
+            instance.jobs.setStepState(step, "collected");
+            return;
+        }
+    }
+    instance.jobs.setStepState(step, "pending");
+}
+/**
+ * Cancels a crafting job, returning the ingredients of its started steps to storage.
+ * Items crafted by completed steps are left in storage.
+ * @param instance The CASTLR data instance.
+ * @param job The job to cancel.
+ */
+function cancelJob(instance: Data, job: CraftingJob): void {
+    for (const step of job.steps)
+        if (step.state === "submitted" || step.state === "waiting") returnStepInputs(instance, job, step);
+    instance.jobs.remove(job);
+}
+/**
+ * Separates the inputs of a recipe into those consumed by each craft, and catalysts that are returned afterwards.
+ * @param recipe The recipe to split the inputs of.
+ * @returns The consumed inputs.
+ * @returns The catalysts.
+ */
+function splitRecipeInputs(recipe: Recipe): LuaMultiReturn<[RecipeInput[], RecipeInput[]]> {
+    const consumedInputs: RecipeInput[] = [];
+    const catalysts: RecipeInput[] = [];
+    for (const item of recipe.input) {
+        if (item.catalyst) catalysts.push(item);
+        else consumedInputs.push(item);
+    }
+    return $multi(consumedInputs, catalysts);
+}
+/**
+ * Moves the fuel for some of a step's recipes to its recipe type, in proportion to the fuel recorded for the whole step.
+ * @param instance The CASTLR data instance.
+ * @param job The job containing the step, releasing the fuel it reserved.
+ * @param step The step being performed.
+ * @param recipeType The recipe type of the step.
+ * @param fromRecipes The number of recipes already supplied with fuel.
+ * @param toRecipes The number of recipes to supply with fuel, including those already supplied.
+ * @returns Whether all of the fuel was moved.
+ */
+function submitFuel(instance: Data, job: CraftingJob, step: CraftingJobStep, recipeType: RecipeType, fromRecipes: number, toRecipes: number): boolean {
+    const fuelLocation = recipeType.fuel?.input ?? recipeType.input;
+    const fuelSlot = instance.getInputSlot(recipeType, recipeType.fuel?.slot);
+    for (const fuel of step.recipe.fuel ?? []) {
+        const fuelCount = math.ceil(toRecipes * fuel.count / step.recipe.count) - math.ceil(fromRecipes * fuel.count / step.recipe.count);
+        if (fuelCount > 0) {
+            const moved = instance.storage.moveItemFromMany(instance.storage.getStoragesByType(StorageType.NotInput), fuelLocation, fuel.name, fuelCount, fuelSlot);
+            instance.jobs.release(job, fuel.name, moved);
+            if (moved < fuelCount) return false;
+        }
+    }
+    return true;
+}
+/**
+ * Moves the outputs of a step present in its recipe type's output to storage, recording the amount collected in the step.
+ * Collected outputs are reserved for the steps that use them, as other steps sharing the output could otherwise take them.
+ * @param instance The CASTLR data instance.
+ * @param job The job containing the step, reserving the items collected.
+ * @param step The step being performed.
+ * @param recipeType The recipe type of the step.
+ * @param targetItems The outputs to collect.
+ */
+function collectOutputs(instance: Data, job: CraftingJob, step: CraftingJobStep, recipeType: RecipeType, targetItems: SlotDetail[]): void {
+    const outputChest = instance.storage.getInventory(recipeType.output);
+    outputChest.syncData();
+    for (const item of targetItems) {
+        const presentCount = outputChest.getItemCount(item.name);
+        if (presentCount > 0) {
+            instance.storage.moveItemFromOne(recipeType.output, instance.storage.getStoragesByType(StorageType.Storage), item.name, presentCount);
+            const movedCount = presentCount - outputChest.getItemCount(item.name);
+            if (movedCount > 0) {
+                instance.jobs.addCollected(step, item.name, movedCount);
+                instance.jobs.reserve(job, item.name, movedCount);
+            }
+        }
+    }
+}
+/**
+ * Creates a watchdog for the progress of a crafting step.
+ * If no progress is made within the recipe type's timeout, the stall is logged and the user is asked how to recover, see {@link promptStallAction}.
+ * As several steps may stall at once, the stall is queued for the job's coroutine to prompt for, waiting for the action chosen.
+ * @param step The step being performed.
+ * @param recipeType The recipe type of the step.
+ * @param stalls The stall queue of the step's job.
+ * @returns A function to call with the current progress, returning the action chosen by the user if the step has stalled.
+ */
+function createStallWatchdog(step: CraftingJobStep, recipeType: RecipeType, stalls: StallQueue): (progress: number) => StallAction | undefined {
+    const timeout: number = recipeType.timeout ?? settings.get("castlr.stallTimeout");
+    let lastProgress = -1;
+    let lastProgressTime = os.clock();
+    return (progress: number) => {
+        if (progress > lastProgress) {
+            lastProgress = progress;
+            lastProgressTime = os.clock();
+            return;
+        }
+        // a timeout of 0 disables stall detection
+        if (timeout <= 0 || os.clock() - lastProgressTime < timeout) return;
+        writeLog(`Stalled crafting ${step.recipe.output.name} using ${recipeType.typeID}: no progress for ${timeout} seconds.`);
+        const request: StallQueue["requests"][number] = { step, recipeType, timeout };
+        stalls.requests.push(request);
+        os.queueEvent("castlr_stall");
+        while (request.action === undefined) os.pullEvent("castlr_stall_answered");
+        writeLog(`Stalled crafting ${step.recipe.output.name}: chose to ${request.action}.`);
+        lastProgressTime = os.clock();
+        return request.action;
+    }
+}
+/**
+ * Asks the user how to recover from a stalled step:
+ * - Retry: wait for another timeout period.
+ * - Skip: treat the step as collected.
+ * - Abort: return the step's ingredients to storage, and cancel its job.
+ * Progress bars are not drawn while the user is prompted, so they do not draw over the prompt.
+ * @param stalls The stall queue of the step's job.
+ * @param request The stalled step to prompt for.
+ * @returns The action chosen by the user.
+ */
+function promptStallAction(stalls: StallQueue, request: StallQueue["requests"][number]): StallAction {
+    stalls.prompting = true;
+    print(`No progress crafting ${request.step.recipe.output.name} for ${request.timeout} seconds.`);
+    const actions = { R: "retry", S: "skip", A: "abort" } as { [index: string]: StallAction };
+    let action: StallAction;
+    while (action === undefined)
+        action = actions[string.upper(getInput("R - retry, S - skip, A - abort: ", { completeFn: stringCompletor(["R", "S", "A"]) }))];
+    stalls.prompting = false;
+    return action;
+}
+/**
+ * Finds the inventories of a recipe type that are not connected, such as after a chest is broken.
+ * @param instance The CASTLR data instance.
+ * @param recipeType The recipe type to check.
+ * @returns The names of the disconnected inventories, which is empty if all are connected.
+ */
+function getDisconnectedInventories(instance: Data, recipeType: RecipeType): string[] {
+    const disconnected: string[] = [];
+    for (const name of [recipeType.input, recipeType.output, recipeType.fuel?.input ?? ""])
+        if (name !== "" && !disconnected.includes(name) && instance.storage.getInventory(name) === undefined) disconnected.push(name);
+    return disconnected;
+}
+/**
+ * Performs a single step of a crafting job, recording its state as it progresses.
+ * Where the recipe type has a batch size, the step is submitted in batches, each waiting for the previous batch's outputs.
+ * Outputs are moved to storage as they are produced, with the amount collected recorded in the step.
+ * If the step cannot be submitted, its ingredients are returned to storage.
+ * @param instance The CASTLR data instance.
+ * @param job The job containing the step, releasing the items it reserved as they are submitted.
+ * @param step The step to perform.
+ * @param stalls The stall queue of the job, through which the user is prompted if the step stalls.
+ * @returns Whether the step was collected.
+ */
+function runStep(instance: Data, job: CraftingJob, step: CraftingJobStep, stalls: StallQueue): StepResult {
+    const currentRecipe = step.recipe;
+    const recipeType = instance.getRecipeType(currentRecipe.typeID);
+    if (recipeType === undefined) {
+        print(`Recipe to craft ${currentRecipe.output.name} not found!`);
+        return "failed";
+    }
+    // the job is paused, to be resumed once the inventories are connected again
+    const disconnected = getDisconnectedInventories(instance, recipeType);
+    if (disconnected.length > 0) {
+        print(`Cannot craft ${currentRecipe.output.name}, ${table.concat(disconnected, ", ")} not connected!`);
+        return "failed";
+    }
+    const outputChest = instance.storage.getInventory(recipeType.output);
+    const [consumedInputs, catalysts] = splitRecipeInputs(currentRecipe);
+    const batchSize = math.max(1, math.min(recipeType.batch ?? currentRecipe.count, currentRecipe.count));
+    const targetItem = { name: currentRecipe.output.name, count: currentRecipe.output.count * currentRecipe.count };
+    // wait for guaranteed byproducts alongside the primary output
+    const targetItems = [targetItem];
+    for (const byproduct of currentRecipe.byproducts ?? [])
+        if ((byproduct.chance ?? 1) >= 1)
+            targetItems.push({ name: byproduct.name, count: byproduct.count * currentRecipe.count });
+    write(`Crafting: ${targetItem.name} x ${targetItem.count} `);
+    const bar = new ProgressBar();
+    if (recipeType.stream) return streamStep(instance, job, step, recipeType, targetItems, bar, stalls);
+    const submitBatch = () => {
+        const batchCount = math.min(batchSize, currentRecipe.count - (step.submitted ?? 0));
+        instance.jobs.setStepState(step, "submitted");
+        if (!submitFuel(instance, job, step, recipeType, step.submitted ?? 0, (step.submitted ?? 0) + batchCount)) return false;
+        // submit items to crafter
+        // repeat (recipe mult) times, round robin to allow for recipes with specific order
+        // prevents overload of too many of the same item preventing the recipe being completed
+        // catalysts are submitted once beforehand, as they are not consumed
+        let repeatCount = 1;
+        let countMultiplier = batchCount;
+        if (consumedInputs.length > 1) {
+            repeatCount = batchCount;
+            countMultiplier = 1;
+        }
+        const submissions: RecipeInput[] = [...catalysts];
+        for (const _ of $range(1, repeatCount))
+            for (const inputItem of consumedInputs)
+                submissions.push({ ...inputItem, count: inputItem.count * countMultiplier });
+        for (const submission of submissions) {
+            const moved = instance.storage.moveItemFromMany(instance.storage.getStoragesByType(StorageType.NotInput), recipeType.input, submission.name, submission.count, instance.getInputSlot(recipeType, submission.slot));
+            instance.jobs.release(job, submission.name, moved);
+            if (moved < submission.count) return false;
+        }
+        instance.jobs.addSubmitted(step, batchCount);
+        instance.jobs.setStepState(step, "waiting");
+        return true;
+    }
+    if (step.state === "pending" && !submitBatch()) {
+        print(`Error crafting ${currentRecipe.output.name}, job paused.`);
+        resetStep(instance, job, step);
+        return "failed";
+    }
+
+    const watchdog = createStallWatchdog(step, recipeType, stalls);
+    do {
+        collectOutputs(instance, job, step, recipeType, targetItems);
+        // outputs collected from earlier batches count towards later ones
+        // steps recorded before batching was introduced are treated as fully submitted
+        const submittedCount = step.submitted ?? currentRecipe.count;
+        let currentCount = 0;
+        let batchTotalCount = 0;
+        let totalCount = 0;
+        for (const item of targetItems) {
+            const batchItemCount = item.count / currentRecipe.count * submittedCount;
+            currentCount += math.min(step.collected?.[item.name] ?? 0, batchItemCount);
+            batchTotalCount += batchItemCount;
+            totalCount += item.count;
+        }
+        if (!stalls.prompting) bar.setProgress(currentCount / totalCount);
+        if (currentCount >= batchTotalCount) {
+            if (submittedCount >= currentRecipe.count) break;
+            // catalysts may be moved to the output by the machine, so are supplied afresh with each batch
+            if (catalysts.length > 0) returnStepInputs(instance, job, step);
+            if (!submitBatch()) {
+                print(`Error crafting ${currentRecipe.output.name}, job paused.`);
+                resetStep(instance, job, step);
+                return "failed";
+            }
+            continue;
+        }
+        const action = watchdog(currentCount);
+        if (action === "skip") break;
+        if (action === "abort") {
+            resetStep(instance, job, step);
+            return "aborted";
+        }
+        sleep(0.5);
+    } while (true);
+    // return byproducts that are not always produced to storage, rather than leaving them in the recipe output
+    for (const byproduct of currentRecipe.byproducts ?? []) {
+        const byproductCount = outputChest.getItemCount(byproduct.name);
+        if (byproductCount > 0)
+            instance.storage.moveItemFromOne(recipeType.output, instance.storage.getStoragesByType(StorageType.Storage), byproduct.name, byproductCount);
+    }
+    returnStepInputs(instance, job, step);
+    instance.jobs.setStepState(step, "collected");
+    return "collected";
+}
+/**
+ * Performs a single step of a crafting job, feeding ingredients as space is made in the recipe type's input.
+ * Outputs are moved to storage as they are produced, with the amount collected recorded in the step.
+ * @param instance The CASTLR data instance.
+ * @param job The job containing the step.
+ * @param step The step to perform.
+ * @param recipeType The recipe type of the step.
+ * @param targetItems The outputs to collect, and the amount of each.
+ * @param bar The progress bar to update as outputs are collected.
+ * @param stalls The stall queue of the job, through which the user is prompted if the step stalls.
+ * @returns Whether the step was collected, failed, or aborted by the user.
+ */
+function streamStep(instance: Data, job: CraftingJob, step: CraftingJobStep, recipeType: RecipeType, targetItems: SlotDetail[], bar: ProgressBar, stalls: StallQueue): StepResult {
+    const currentRecipe = step.recipe;
+    const outputChest = instance.storage.getInventory(recipeType.output);
+    // amount of each input left to submit
+    const remaining: number[] = [];
+    // catalysts are submitted once, as they are not consumed
+    const [consumedInputs] = splitRecipeInputs(currentRecipe);
+    for (const inputItem of currentRecipe.input)
+        remaining.push(step.state !== "pending" ? 0 : inputItem.catalyst ? inputItem.count : inputItem.count * currentRecipe.count);
+    // amount of each fuel left to submit
+    const fuelRemaining: number[] = [];
+    for (const fuel of currentRecipe.fuel ?? [])
+        fuelRemaining.push(step.state !== "pending" ? 0 : fuel.count);
+    const fuelLocation = recipeType.fuel?.input ?? recipeType.input;
+    const fuelSlot = instance.getInputSlot(recipeType, recipeType.fuel?.slot);
+    // submit a single recipe's worth of each input at a time, as with round robin submission
+    const batchSize = math.max(1, math.min(recipeType.batch ?? currentRecipe.count, currentRecipe.count));
+    const countMultiplier = consumedInputs.length > 1 ? 1 : batchSize;
+    // progress is made by either submitting ingredients or collecting outputs
+    let submittedCount = 0;
+    if (step.state === "pending") instance.jobs.setStepState(step, "submitted");
+    const watchdog = createStallWatchdog(step, recipeType, stalls);
+    while (true) {
+        if (step.state === "submitted") {
+            let submitted = true;
+            // at most a batch of recipes is submitted ahead of the outputs collected
+            const collectedRecipes = math.floor((step.collected?.[currentRecipe.output.name] ?? 0) / currentRecipe.output.count);
+            for (const i of $range(0, currentRecipe.input.length - 1)) {
+                const inputItem = currentRecipe.input[i];
+                let batchCount = inputItem.catalyst ? inputItem.count : inputItem.count * countMultiplier;
+                if (!inputItem.catalyst) {
+                    const submittedSoFar = inputItem.count * currentRecipe.count - remaining[i];
+                    batchCount = math.min(batchCount, (collectedRecipes + batchSize) * inputItem.count - submittedSoFar);
+                }
+                if (remaining[i] > 0 && batchCount > 0) {
+                    const moved = instance.storage.moveItemFromMany(instance.storage.getStoragesByType(StorageType.NotInput), recipeType.input, inputItem.name, math.min(remaining[i], batchCount), instance.getInputSlot(recipeType, inputItem.slot));
+                    remaining[i] -= moved;
+                    submittedCount += moved;
+                    instance.jobs.release(job, inputItem.name, moved);
+                    // the input being full is expected, running out of an ingredient is not
+                    if (moved === 0 && instance.storage.getStoredItemCount(inputItem.name) === 0) {
+                        print(`Error crafting ${currentRecipe.output.name}, job paused.`);
+                        resetStep(instance, job, step);
+                        return "failed";
+                    }
+                }
+                if (remaining[i] > 0) submitted = false;
+            }
+            // fuel is sent in proportion to the recipes that may be submitted
+            const fuelRecipes = math.min(currentRecipe.count, collectedRecipes + batchSize);
+            for (const i of $range(0, fuelRemaining.length - 1)) {
+                const fuel = currentRecipe.fuel[i];
+                const fuelCount = math.min(fuelRemaining[i], math.ceil(fuelRecipes * fuel.count / currentRecipe.count) - (fuel.count - fuelRemaining[i]));
+                if (fuelCount > 0) {
+                    const moved = instance.storage.moveItemFromMany(instance.storage.getStoragesByType(StorageType.NotInput), fuelLocation, fuel.name, fuelCount, fuelSlot);
+                    fuelRemaining[i] -= moved;
+                    submittedCount += moved;
+                    instance.jobs.release(job, fuel.name, moved);
+                    if (moved === 0 && instance.storage.getStoredItemCount(fuel.name) === 0) {
+                        print(`Out of fuel crafting ${currentRecipe.output.name}, job paused.`);
+                        resetStep(instance, job, step);
+                        return "failed";
+                    }
+                }
+                if (fuelRemaining[i] > 0) submitted = false;
+            }
+            if (submitted) instance.jobs.setStepState(step, "waiting");
+        }
+        // move outputs to storage as they are produced, freeing space in the output
+        collectOutputs(instance, job, step, recipeType, targetItems);
+        let currentCount = 0;
+        let totalCount = 0;
+        for (const item of targetItems) {
+            currentCount += math.min(step.collected?.[item.name] ?? 0, item.count);
+            totalCount += item.count;
+        }
+        if (!stalls.prompting) bar.setProgress(currentCount / totalCount);
+        if (step.state === "waiting" && currentCount >= totalCount) break;
+        const action = watchdog(currentCount + submittedCount);
+        if (action === "skip") break;
+        if (action === "abort") {
+            resetStep(instance, job, step);
+            return "aborted";
+        }
+        sleep(0.5);
+    }
+    // return byproducts that are not always produced to storage
+    for (const byproduct of currentRecipe.byproducts ?? []) {
+        const byproductCount = outputChest.getItemCount(byproduct.name);
+        if (byproductCount > 0)
+            instance.storage.moveItemFromOne(recipeType.output, instance.storage.getStoragesByType(StorageType.Storage), byproduct.name, byproductCount);
+    }
+    returnStepInputs(instance, job, step);
+    instance.jobs.setStepState(step, "collected");
+    return "collected";
+}
+/**
+ * Performs the remaining steps of a crafting job.
+ * Each recipe type has a worker, starting each of its steps as soon as the steps it depends on are collected.
+ * Steps of the same type share a machine, so each worker runs one step at a time, while workers run in parallel.
+ * Once all steps are collected, the crafted items are moved to the CASTLR output chest and the job is removed.
+ * If a step fails, or no step can be started, the job is paused once the running steps have finished.
+ * If a step is aborted by the user, the job is cancelled instead.
+ * Steps that stall are prompted for by this coroutine one at a time, with no steps started while the user is prompted.
+ * @param instance The CASTLR data instance.
+ * @param job The job to perform.
+ * @returns Whether the job completed.
+ */
+function runJob(instance: Data, job: CraftingJob): boolean {
+    // reset for progress bar positioning
+    term.clear();
+    term.setCursorPos(1, 1);
+    let failed = false;
+    let aborted = false;
+    let runningCount = 0;
+    const stalls: StallQueue = { requests: [], prompting: false };
+    // map of catalyst names to the number of running steps using them
+    const busyCatalysts = new LuaMap<string, number>();
+    const isFinished = () => instance.jobs.getStepsInState(job, "collected").length === job.steps.length;
+    // finds the next step of a recipe type that can be started, if any
+    const getNextStep = (typeID: RecipeTypeIdentifier) => {
+        // steps already waiting on a machine are finished first, such as after a restart
+        const candidateSteps = instance.jobs.getStepsInState(job, "waiting");
+        for (const step of job.steps)
+            if (instance.jobs.isStepReady(job, step)) candidateSteps.push(step);
+        for (const step of candidateSteps) {
+            if (step.recipe.typeID !== typeID) continue;
+            // the plan only borrows enough of each catalyst for one step at a time
+            const [, catalysts] = splitRecipeInputs(step.recipe);
+            if (step.state === "waiting" || !catalysts.some(catalyst => busyCatalysts.has(catalyst.name))) return step;
+        }
+    }
+    const typeIDs: RecipeTypeIdentifier[] = [];
+    for (const step of job.steps)
+        if (step.state !== "collected" && !typeIDs.includes(step.recipe.typeID)) typeIDs.push(step.recipe.typeID);
+    const runWorker = (typeID: RecipeTypeIdentifier) => {
+        while (!failed && !aborted) {
+            const step = getNextStep(typeID);
+            if (step === undefined && job.steps.every(otherStep => otherStep.recipe.typeID !== typeID || otherStep.state === "collected")) return;
+            // starting a step writes to the terminal, so waits for any prompt to finish
+            if (step === undefined || stalls.prompting) {
+                // woken when any step finishes or a prompt is answered, either of which may let a step of this type start
+                os.pullEvent("castlr_step_finished");
+                continue;
+            }
+            const [, catalysts] = splitRecipeInputs(step.recipe);
+            runningCount++;
+            for (const catalyst of catalysts) busyCatalysts.set(catalyst.name, (busyCatalysts.get(catalyst.name) ?? 0) + 1);
+            const result = runStep(instance, job, step, stalls);
+            for (const catalyst of catalysts) {
+                const remaining = busyCatalysts.get(catalyst.name) - 1;
+                if (remaining > 0) busyCatalysts.set(catalyst.name, remaining);
+                else busyCatalysts.delete(catalyst.name);
+            }
+            runningCount--;
+            if (result === "failed") failed = true;
+            if (result === "aborted") aborted = true;
+            os.queueEvent("castlr_step_finished");
+        }
+    }
+    // prompts for stalled steps, and finds when no step can be started, such as when a dependency cannot be met
+    const coordinate = () => {
+        while (true) {
+            const request = stalls.requests.shift();
+            if (request !== undefined) {
+                request.action = promptStallAction(stalls, request);
+                os.queueEvent("castlr_stall_answered");
+                // wakes the workers waiting for the prompt to finish
+                os.queueEvent("castlr_step_finished");
+                continue;
+            }
+            // running steps may still stall, so are waited for
+            if (runningCount === 0) {
+                if (failed || aborted || isFinished()) return;
+                if (typeIDs.every(typeID => getNextStep(typeID) === undefined)) {
+                    failed = true;
+                    // wakes the idle workers, so that they stop
+                    os.queueEvent("castlr_step_finished");
+                    return;
+                }
+            }
+            let event: string;
+            do [event] = os.pullEvent();
+            while (event !== "castlr_step_finished" && event !== "castlr_stall");
+        }
+    }
+    const workers = [coordinate];
+    for (const typeID of typeIDs) workers.push(() => runWorker(typeID));
+    parallel.waitForAll(...workers);
+    if (!isFinished()) {
+        if (aborted) {
+            cancelJob(instance, job);
+            print(`Cancelled crafting ${describeJobOutput(job)}`);
+            return false;
+        }
+        instance.jobs.setPaused(job, true);
+        return false;
+    }
+    // the output chest may fill before every item of an order is delivered
+    const undeliveredStrs: string[] = [];
+    for (const item of job.order ?? [{ name: job.name, count: job.count }]) {
+        const movedCount = instance.storage.moveItemFromMany(instance.storage.getStoragesByType(StorageType.NotInput), settings.get("castlr.outputChest"), item.name, item.count);
+        if (movedCount < item.count) undeliveredStrs.push(`${item.name} x ${item.count - movedCount}`);
+    }
+    instance.jobs.remove(job);
+    print(`Crafted ${describeJobOutput(job)}`);
+    if (undeliveredStrs.length > 0) {
+        print("The output chest is full, so the following remain in storage:");
+        displayPages(undeliveredStrs, false);
+    }
+    return true;
+}
+/**
+ * Reconciles unfinished crafting jobs with the connected inventories, after CASTLR is restarted.
+ * Steps interrupted during submission have their ingredients returned to storage, to be submitted again.
+ * The user then chooses whether to resume or roll back each job that is not paused.
+ * @param instance The CASTLR data instance.
+ */
+function reconcileJobs(instance: Data): void {
+    // copy, as jobs are removed from the queue when finished
+    for (const job of [...instance.jobs.getJobs()]) {
+        // the amount submitted is unknown, so submit again
+        for (const step of instance.jobs.getStepsInState(job, "submitted"))
+            resetStep(instance, job, step);
+        if (!job.paused) {
+            term.clear();
+            term.setCursorPos(1, 1);
+            print(`Unfinished crafting job: ${describeJob(instance, job)}`);
+            if (getConsent("Resume this job? Otherwise, it is cancelled.")) {
+                runJob(instance, job);
+                sleep(settings.get("castlr.period"));
+            } else cancelJob(instance, job);
+        }
+    }
+}
+/**
+ * Appends a timestamped message to the CASTLR log.
+ * @param message The message to log.
+ */
+function writeLog(message: string): void {
+    appendFile("castlr.log", textutils.formatTime(os.time(), true) + " - " + message + "\n");
+}
 /**
  * Get the tag specified by 'castlr.version'. Ensure http is available.
  * @returns The tag name of the latest release, or the tag set in 'castlr.version'.
@@ -262,6 +1470,16 @@ function setup(): boolean {
         default: 2,
         type: "number"
     });
+    settings.define("castlr.stallTimeout", {
+        description: "Seconds without progress before a crafting step is considered stalled. 0 disables stall detection.",
+        default: 60,
+        type: "number"
+    });
+    settings.define("castlr.resyncPeriod", {
+        description: "Seconds between synchronising each inventory in the background. 0 disables background synchronisation.",
+        default: 1,
+        type: "number"
+    });
 
     if (!http) return;
 
@@ -314,29 +1532,38 @@ function main(): void {
     const menuStrings = [
         "Welcome to CASTLR! (" + settings.get("castlr._installed_version") + ")", // Computer Aided Storage, Technical Logistic Regulator
         "   C - craft an item.",
+        "   M - craft from a material list.",
         "   A - add a new recipe / type.",
+        "   D - manage recipes / types.",
         "   S - store all items in input chest.",
         "   T - take an item.",
         "   L - list all stored items.",
+        "   I - list inventories, and when each was last verified.",
+        "   J - manage crafting jobs.",
         "   R - refresh stored data.",
         "Enter mode: "
     ];
     print("Initalising..");
+    const migratedCount = migrateLayout();
+    if (migratedCount > 0) print(`Moved ${migratedCount} recipe types, and their recipes, to the namespaced layout.`);
     const instance = new Data();
     if (instance.issues.conflict.length !== 0 || instance.issues.invalid.length !== 0) {
-        const pagableStrings: string[] = [];
-        for (const conflict of instance.issues.conflict) {
-            pagableStrings.push("'" + conflict.first.path + "' conflicts with '" + conflict.second.path + "'");
-            pagableStrings.push("Reason: " + conflict.reason);
-        }
-        for (const invalid of instance.issues.invalid) {
-            pagableStrings.push("'" + invalid.path + "' is invalid.");
-            pagableStrings.push("Reason: " + invalid.reason);
-        }
         print("The following must be resolved before using CASTLR:")
-        displayPages(pagableStrings, false);
+        displayPages(describeIssues(instance.issues), false);
         return;
     }
+    reconcileJobs(instance);
+    // the menu is run alongside the background tasks, ending CASTLR once it ends
+    const tasks = [() => runMainMenu(instance, menuStrings), () => watchPeripherals(instance)];
+    if (settings.get("castlr.resyncPeriod") > 0) tasks.push(() => resyncInventories(instance));
+    parallel.waitForAny(...tasks);
+}
+/**
+ * Runs the main menu until CASTLR is terminated, persisting the inventory index after every action.
+ * @param instance The CASTLR data instance.
+ * @param menuStrings The text of the main menu.
+ */
+function runMainMenu(instance: Data, menuStrings: string[]): void {
     while (true) {
         const process = runMenu(menuStrings, rootMenu);
         const [success, terminating] = xpcall(() => process(instance), (err) => {
@@ -347,10 +1574,86 @@ function main(): void {
             file.writeLine(err);
             file.close();
         });
+        // persisted after every action, including one that was terminated, so the next start is not slowed by a full rescan
+        instance.storage.saveIndex();
         if (!success && terminating) break;
         sleep(settings.get("castlr.period"));
     }
 }
+/**
+ * Adds and removes inventories as their peripherals are connected and disconnected, such as by a modem or chest being broken.
+ * Disconnecting an inventory used by a recipe type, or as the CASTLR input or output chest, is logged as a warning.
+ * Runs until terminated.
+ * @param instance The CASTLR data instance.
+ */
+function watchPeripherals(instance: Data): void {
+    // wrapping an inventory yields, during which other events would be missed, so attached peripherals are queued
+    const attached: string[] = [];
+    const listen = () => {
+        while (true) {
+            const [event, name] = os.pullEventRaw();
+            if (event === "peripheral") {
+                attached.push(name);
+                os.queueEvent("castlr_peripheral_queued");
+            } else if (event === "peripheral_detach" && instance.storage.removeInventory(name)) {
+                const usedBy: string[] = [];
+                if (name === settings.get("castlr.inputChest")) usedBy.push("the CASTLR input chest");
+                if (name === settings.get("castlr.outputChest")) usedBy.push("the CASTLR output chest");
+                for (const typeID of instance.getRecipeTypeIDs()) {
+                    const recipeType = instance.getRecipeType(typeID);
+                    if ([recipeType.input, recipeType.output, recipeType.fuel?.input].includes(name)) usedBy.push(typeID);
+                }
+                if (usedBy.length > 0) writeLog(`Warning: inventory ${name} was disconnected, but is used by ${table.concat(usedBy, ", ")}.`);
+                else writeLog(`Inventory ${name} was disconnected.`);
+            }
+        }
+    }
+    const wrap = () => {
+        while (true) {
+            while (attached.length > 0) {
+                const name = attached.shift();
+                // the peripheral may be removed again before it is wrapped
+                const [success, inventory] = pcall(() => instance.storage.addInventory(name));
+                if (success && inventory !== undefined) writeLog(`Inventory ${name} was connected.`);
+            }
+            os.pullEventRaw("castlr_peripheral_queued");
+        }
+    }
+    parallel.waitForAny(listen, wrap);
+}
+/**
+ * Describes when an inventory was last verified, for display.
+ * @param lastVerified The time it was last verified, as given by {@link Inventory.getLastVerified}.
+ * @returns The time, such as "at 2024-01-31 12:00:00", or "never" if it has not been since being loaded from the index.
+ */
+function describeVerified(lastVerified: number | undefined): string {
+    if (lastVerified === undefined) return "never";
+    return `at ${os.date("%Y-%m-%d %H:%M:%S", math.floor(lastVerified / 1000))}`;
+}
+/**
+ * Synchronises one inventory every `castlr.resyncPeriod` seconds, so changes made outside of CASTLR are found without refreshing.
+ * Drift found in storage inventories is logged. Drift in recipe outputs is expected, as machines produce items, so is not.
+ * Runs until terminated.
+ * @param instance The CASTLR data instance.
+ */
+function resyncInventories(instance: Data): void {
+    const period: number = settings.get("castlr.resyncPeriod");
+    while (true) {
+        // peripheral calls fail if an inventory is removed, which must not end CASTLR
+        const [success, err] = pcall(() => {
+            sleep(period);
+            // storage is replaced when refreshing, so is read every time
+            const [name, drift, previousVerified] = instance.storage.resyncNext();
+            if (drift === undefined || !instance.storage.getStoragesByType(StorageType.Storage).has(name)) return;
+            for (const [key, difference] of drift)
+                writeLog(`Inventory ${name} drifted by ${difference > 0 ? "+" : ""}${difference} x ${key} since it was last verified ${describeVerified(previousVerified)}.`);
+        });
+        if (!success) {
+            if (err === "Terminated") return;
+            writeLog(`Background resync failed: ${err}`);
+        }
+    }
+}
 
 main();
 
@@ -361,22 +1664,6 @@ possible future features:
     - write out storage contents to file / pocket computer
     - rednet access - read only
     
-    read material list output from litematica
-    
     stream processing:
-    - moving items as they are produced / space is made in input (current behaviour: move them all at once)
-    - coroutine for each recipe
     - option to output crafts into storage - for users without a large chest mod
-
-    recipe lister
-    - list all available recipes, searchable
-
-    recipe visualiser
-    - tree view
-    - scrollable window
-
-    prevent recipe loops (ingot <- block <- ingot)
-
-    convert datapacks to recipes
-    - as automatic as possible, query user for clarification
 */
\ No newline at end of file
@@ -1,9 +1,97 @@
 import {
     readFile,
-    splitString,
+    writeFile,
     endsWith
 } from "./utils";
 import { Storage } from "./storage";
+import { JobQueue } from "./jobs";
+import { validateRecipe, validateRecipeType } from "./schema";
+import { itemMatches } from "./inventory";
+import {
+    getTypePath,
+    getRecipeDirectory,
+    getAvailableRecipePath,
+    getLegacyRecipeDirectory,
+    pruneDirectory
+} from "./layout";
+
+// an item to take from storage or craft, alongside the items being resolved that led to it
+// and the plan node of the recipe it is an ingredient of, if any
+type GatherRequest = SlotDetail & { resolving: LuaSet<string>, parent?: PlanNode, catalyst?: boolean, fuel?: boolean };
+// the state of a plan being resolved
+type PlanState = {
+    // map of item names to the amount taken from storage
+    itemsGathered: LuaMap<string, number>
+    // map of item names to the amount returned to storage as byproducts, before being taken
+    itemsCredited: LuaMap<string, number>
+    // map of catalyst names to the largest amount needed by a single step, included in itemsGathered
+    itemsBorrowed: LuaMap<string, number>
+    // the recipes to be performed, to be traversed as a stack
+    recipeStack: CraftingStep[]
+};
+
+/**
+ * Determines whether two recipes are duplicates: the same type, output and inputs, including the slot of each.
+ * @param first The first recipe to compare.
+ * @param second The second recipe to compare.
+ * @returns Whether the recipes are duplicates.
+ */
+export const recipesMatch = (first: Recipe, second: Recipe) => {
+    if (first.typeID !== second.typeID || first.input.length !== second.input.length) return false;
+    if (first.output.name !== second.output.name || first.output.count !== second.output.count) return false;
+    for (const i of $range(0, first.input.length - 1))
+        if (first.input[i].name !== second.input[i].name || first.input[i].count !== second.input[i].count || first.input[i].slot !== second.input[i].slot) return false;
+    return true;
+}
+/**
+ * Get the items being resolved by the ingredients of a request - those of the request, and the request itself.
+ * @param request The request being resolved.
+ * @returns A new set of item names.
+ */
+const withResolving = (request: GatherRequest) => {
+    const resolving = new LuaSet<string>();
+    for (const item of request.resolving) resolving.add(item);
+    resolving.add(request.name);
+    return resolving;
+}
+/**
+ * Copies a plan, such that changes to the copy do not affect the original.
+ * @param plan The plan to copy.
+ * @returns A new plan, with the same contents.
+ */
+const copyPlan = (plan: PlanState): PlanState => {
+    const itemsGathered = new LuaMap<string, number>();
+    for (const [name, count] of plan.itemsGathered) itemsGathered.set(name, count);
+    const itemsCredited = new LuaMap<string, number>();
+    for (const [name, count] of plan.itemsCredited) itemsCredited.set(name, count);
+    const itemsBorrowed = new LuaMap<string, number>();
+    for (const [name, count] of plan.itemsBorrowed) itemsBorrowed.set(name, count);
+    return { itemsGathered, itemsCredited, itemsBorrowed, recipeStack: [...plan.recipeStack] };
+}
+/**
+ * Adds the ingredients of a recipe to the items to gather.
+ * Consumed inputs are multiplied by the number of recipes performed, whereas catalysts are needed once,
+ * and only where more are needed than already borrowed by the plan, as they are returned after each step.
+ * @param recipe The recipe to gather ingredients for.
+ * @param recipeMultiplier The number of times the recipe is to be performed.
+ * @param plan The plan so far.
+ * @param itemsToGather The stack of items to gather, to add the ingredients to.
+ * @param resolving The items being resolved by the ingredients, as given by {@link withResolving}.
+ * @param parent The plan node of the recipe, if any.
+ * @param fuel The fuel burnt by the recipe's type, if any.
+ */
+const pushIngredients = (recipe: Recipe, recipeMultiplier: number, plan: PlanState, itemsToGather: GatherRequest[], resolving: LuaSet<string>, parent?: PlanNode, fuel?: SlotDetail) => {
+    if (fuel !== undefined) itemsToGather.push({ name: fuel.name, count: fuel.count, resolving, parent, fuel: true });
+    for (const item of recipe.input) {
+        if (item.catalyst) {
+            const borrowed = plan.itemsBorrowed.get(item.name) ?? 0;
+            if (item.count > borrowed) {
+                plan.itemsBorrowed.set(item.name, item.count);
+                itemsToGather.push({ name: item.name, count: item.count - borrowed, resolving, parent, catalyst: true });
+            }
+        } else itemsToGather.push({ name: item.name, count: item.count * recipeMultiplier, resolving, parent });
+    }
+}
 
 export interface Data {
     /**
@@ -24,20 +112,15 @@ export interface Data {
      */
     storage: Storage;
 
+    /**
+     * Reference to {@link JobQueue}, which persists crafting jobs across restarts.
+     */
+    jobs: JobQueue;
+
     /**
      * Container for issues encountered when loading recipes or types.
      */
-    issues: {
-        conflict: {
-            first: {path: string}
-            second: {path: string}
-            reason: string
-        }[]
-        invalid: {
-            path: string
-            reason: string
-        }[]
-    }
+    issues: DefinitionIssues;
     /**
      * Creates a Data instance - Fields are initalised using {@link init}.
      */
@@ -47,33 +130,57 @@ export interface Data {
      * Initalise fields. In particular, this:
      * - Gathers recipes and their types read from ./recipes/ and ./types/, respectively.
      * - Generates storage type sets, using data from recipe types.
-     * - Wraps all connected inventory peripherals using {@link Storage}.
+     * - Wraps all connected inventory peripherals using {@link Storage}, using their contents persisted to ./inventories.json where present.
+     * - Loads unfinished crafting jobs from ./jobs.json using {@link JobQueue}, reserving their items in storage.
      */
     init(): void;
 
     /**
      * This first validates a recipe. It must:
      * - Be of a valid recipe type.
-     * - Not produce an item with an existing recipe.
+     * - Only place inputs in slots by index, or by a role named in its recipe type.
+     * - Not duplicate an existing recipe - the same type, output and inputs.
+     * Recipes producing the same item are allowed, and are chosen between during {@link gatherIngredients}.
      * It then stores the recipe in the instance.
      * @param recipe An unvalidated recipe to insert.
      */
     _addRecipe(recipe: Recipe): void;
 
     /**
-     * This first validates a recipe type. It must:
+     * This first validates a recipe type, after its fields are checked by {@link validateRecipeType}. It must:
      * - Be a unique type.
-     * It then stores the recipe type in the instance, and loads all linked recipes the the corresponding ./recipes/${type} directory.
+     * It then stores the recipe type in the instance, and loads all linked recipes from the corresponding directory, see {@link getRecipeDirectory}.
+     * Types saved directly within ./types/ by earlier versions load their recipes from ./recipes/${type path} instead.
      * @param recipe An unvalidated recipe to insert.
      */
     _addRecipeType(recipeType: RecipeType): void;
 
     /**
      * This will load, non-recursively, all of the recipe JSONs in the given directory.
-     * It calls {@link _addRecipe} for each one.
-     * @param directory The directory to load recipes from.
+     * The fields of each are checked using {@link validateRecipe}, before calling {@link _addRecipe} for each valid one.
+     * Every file is checked, with each problem found added to {@link issues}.
+     * @param directory The directory to load recipes from. A missing directory is treated as empty.
+     * @param recursive Whether to also load recipes within directories, such as those for each output namespace.
+     */
+    _loadRecipesFromDirectory(directory: string, recursive?: boolean): void;
+
+    /**
+     * Replaces all recipes and types with those loaded from the type JSONs in the given directory, and the directory of each namespace within it.
+     * Types saved directly within the directory, by earlier versions, are also loaded until they are moved by {@link migrateLayout}.
+     * The fields of each are checked using {@link validateRecipeType}, before calling {@link _addRecipeType} for each valid one.
+     * Every file is checked, with each problem found added to {@link issues}, which is cleared beforehand.
+     * This also serves to check all definitions on demand.
+     * @param directory The directory to load recipe types from.
+     */
+    loadRecipeTypesFromDirectory(directory: string): void;
+
+    /**
+     * Gets the inventories used by recipe types, along with the CASTLR input and output chests.
+     * Inputs are not stored in, or indexed, while outputs are indexed but not stored in.
+     * @returns The inventories to treat as inputs.
+     * @returns The inventories to treat as outputs.
      */
-    _loadRecipesFromDirectory(directory: string): void;
+    _getRecipeInventories(): LuaMultiReturn<[LuaSet<string>, LuaSet<string>]>;
 
     /**
      * Iterates through all stored recipe types to collate all type IDs.
@@ -89,11 +196,38 @@ export interface Data {
     getRecipeType(typeID: RecipeTypeIdentifier): RecipeType | undefined;
 
     /**
-     * Look up a recipe using its output item name.
-     * @param itemOutput The name of the output item for the desired {@link Recipe}.
-     * @returns The {@link Recipe} with the desired output item.
+     * Look up all recipes producing an item, using its name.
+     * @param itemOutput The name of the output item for the desired {@link Recipe}s, matching any variant unless an item key is given.
+     * @returns The {@link Recipe}s with the desired output item, ordered by descending priority.
+     */
+    getRecipes(itemOutput: string): Recipe[];
+
+    /**
+     * Finds the slot of a recipe type's input that an ingredient must be placed in, if any.
+     * @param recipeType The recipe type the ingredient is submitted to.
+     * @param slot The slot index or role of the ingredient, as given by {@link RecipeInput} or {@link FuelRequirement}.
+     * @returns The slot index, or undefined if the ingredient may be placed in any slot.
      */
-    getRecipe(itemOutput: string): Recipe | undefined;
+    getInputSlot(recipeType: RecipeType, slot: number | string | undefined): number | undefined;
+
+    /**
+     * Chooses the fuel to burn for a number of recipes of a type, preferring the first accepted fuel of which enough is available.
+     * If none are available in full, the most abundant fuel is chosen.
+     * @param recipeType The recipe type performing the recipes.
+     * @param recipeMultiplier The number of recipes to perform.
+     * @param plan The plan so far, for the amount of each fuel already in use.
+     * @returns The fuel and the amount to burn, or undefined if the recipe type does not use fuel.
+     */
+    _chooseFuel(recipeType: RecipeType | undefined, recipeMultiplier: number, plan: PlanState): SlotDetail | undefined;
+
+    /**
+     * Replaces the tag ingredients of a recipe, such as "#minecraft:planks", with the matching item most available in storage.
+     * Tags without any matching stored items are left in place, and so must be inserted.
+     * @param recipe The recipe to resolve the tags of.
+     * @param plan The plan so far, for the amount of each item already in use.
+     * @returns A copy of the recipe, with only item IDs as inputs, or the recipe itself if it has no tag ingredients.
+     */
+    _resolveTags(recipe: Recipe, plan: PlanState): Recipe;
 
     /**
      * Accessor method: get all stored {@link Recipe}s
@@ -101,16 +235,111 @@ export interface Data {
      */
     getAllRecipes(): LuaSet<Recipe>;
 
+    /**
+     * Renames a recipe type, moving its recipes into the directory of the new type and updating the type of each.
+     * Recipes and types are reloaded afterwards, using {@link loadRecipeTypesFromDirectory}.
+     * @param typeID The recipe type to rename.
+     * @param newTypeID The new recipe type ID, which must not already be in use.
+     */
+    renameRecipeType(typeID: RecipeTypeIdentifier, newTypeID: RecipeTypeIdentifier): void;
+
+    /**
+     * Deletes a recipe type, alongside all of its recipes.
+     * Recipes and types are reloaded afterwards, using {@link loadRecipeTypesFromDirectory}.
+     * @param typeID The recipe type to delete.
+     */
+    deleteRecipeType(typeID: RecipeTypeIdentifier): void;
+
+    /**
+     * Deletes a recipe from disk.
+     * Recipes and types are reloaded afterwards, using {@link loadRecipeTypesFromDirectory}.
+     * @param recipe The recipe to delete.
+     */
+    deleteRecipe(recipe: Recipe): void;
+
+    /**
+     * Finds cycles between recipes, such as ingot <- nugget <- block <- ingot, reporting each through {@link issues}.
+     * Reversible pairs, such as ingot <- block <- ingot, are allowed, and are instead handled when planning.
+     */
+    _detectRecipeCycles(): void;
+
+    /**
+     * Processes items to gather until none remain, updating the given plan.
+     * Each item processed is added to the plan's tree, as a child of the request's parent node.
+     * Guaranteed byproducts of a recipe are credited against items already gathered, as these are taken by recipes performed afterwards.
+     * Catalysts are gathered once for the whole plan, as each step returns them to storage, see {@link pushIngredients}.
+     * @param itemsToGather A stack of items that must be taken from storage or crafted.
+     * @param plan The plan so far.
+     */
+    _resolveIngredients(itemsToGather: GatherRequest[], plan: PlanState): void;
+
+    /**
+     * Get the recipes for an item that can be used without looping back on itself. A recipe cannot be used if it:
+     * - Produces an item that is already being resolved, such as fuel burnt to produce itself.
+     * - Requires an item that is already being resolved.
+     * - Reverses a recipe already in the plan, such as ingot <- block when block <- ingot is planned.
+     * @param request The item to find recipes for.
+     * @param recipeStack The stack of recipes to be performed so far.
+     * @returns The usable {@link Recipe}s, ordered by descending priority.
+     */
+    _getUsableRecipes(request: GatherRequest, recipeStack: CraftingStep[]): Recipe[];
+
+    /**
+     * Choose which recipe to use to craft an item, when more than one is available.
+     * Each candidate is resolved against current storage, preferring the fewest missing items,
+     * then the fewest intermediate crafts, then the highest priority.
+     * @param candidates The usable recipes for the item, as given by {@link _getUsableRecipes}.
+     * @param request The item to craft.
+     * @param craftAmount The amount of the item that must be crafted.
+     * @param plan The plan so far.
+     * @returns The chosen {@link Recipe}, or undefined if there are no candidates.
+     */
+    _chooseRecipe(candidates: Recipe[], request: GatherRequest, craftAmount: number, plan: PlanState): Recipe | undefined;
+
     /**
      * This function will find the necessary ingredients in storage.
      * It prioritises least amount of intermediate crafts, using any items in storage first.
+     * Where an item has multiple recipes, the one using the most stored items is chosen, see {@link _chooseRecipe}.
      * If an item is not in storage, or cannot be crafted, it must be inserted.
+     * Guaranteed byproducts are used in place of stored items where possible.
+     * Tag ingredients use the matching item most available at the time, see {@link _resolveTags}.
+     * Fuel burnt by recipe types is included in the items used, and recorded in each step, see {@link _chooseFuel}.
      * @param name The item name to craft.
      * @param count The amount of the item to craft.
-     * @returns A map of item names to their counts.
+     * @returns A map of item names to their counts, after byproducts are returned to storage.
+     * @returns An array, to be traversed as a stack upon which the crafting recipes to be performed are stored.
+     * @returns The root of the plan's tree, for display.
+     * @returns A map of catalyst names to the amount borrowed, which are included in the item counts but returned to storage.
+     */
+    gatherIngredients(name: string, count: number): [LuaMap<string, number>, CraftingStep[], PlanNode, LuaMap<string, number>];
+
+    /**
+     * Gathers the ingredients for several items as one combined plan, such as for a material list.
+     * Items are resolved in the order given, each using only the items in storage not already used by those before it.
+     * Intermediate crafts shared between items are merged into single steps, as in {@link gatherIngredients}.
+     * @param order The items to craft, alongside the amount of each.
+     * @returns A map of item names to their counts, after byproducts are returned to storage.
      * @returns An array, to be traversed as a stack upon which the crafting recipes to be performed are stored.
+     * @returns The roots of the plan's tree, one per item in the order, for display.
+     * @returns A map of catalyst names to the amount borrowed, which are included in the item counts but returned to storage.
+     */
+    gatherOrderIngredients(order: SlotDetail[]): [LuaMap<string, number>, CraftingStep[], PlanNode[], LuaMap<string, number>];
+
+    /**
+     * Finds the item with the largest shortfall in a map of item usage, as given by {@link gatherIngredients}.
+     * @param itemsUsed A map of item names to the amount used.
+     * @returns The name of the item most lacking from storage, or undefined if none are lacking.
+     */
+    getLimitingItem(itemsUsed: LuaMap<string, number>): string | undefined;
+
+    /**
+     * Calculates the largest amount of an item that can be crafted from the items currently stored, including through intermediate crafts.
+     * This searches for the largest amount for which {@link gatherIngredients} has no items lacking from storage.
+     * @param name The item name to craft.
+     * @returns The largest amount that can be crafted.
+     * @returns The name of the item that prevents crafting more, if any.
      */
-    gatherIngredients(name: string, count: number): [LuaMap<string, number>, (Recipe & { count: number })[]];
+    getMaxCraftable(name: string): LuaMultiReturn<[number, string | undefined]>;
 }
 
 /**
@@ -122,6 +351,7 @@ export class Data {
     _recipes: LuaSet<Recipe>;
 
     storage: Storage;
+    jobs: JobQueue;
 
     constructor() {
         this.init();
@@ -131,18 +361,9 @@ export class Data {
         // load recipes / types, get storage types
         this.loadRecipeTypesFromDirectory("./types/");
 
-        const inputs = new LuaSet<string>();
-        const outputs = new LuaSet<string>();
+        const [inputs, outputs] = this._getRecipeInventories();
         const storages = new LuaSet<string>();
         const notInputs = new LuaSet<string>();
-        // treat outputChest like an input - do not store items, do not index
-        inputs.add(settings.get("castlr.outputChest"));
-        // treat inputChest like an output - do not store items, do index
-        outputs.add(settings.get("castlr.inputChest"));
-        for (const recipe of this._recipeTypes) {
-            inputs.add(recipe.input);
-            outputs.add(recipe.output);
-        }
 
         // get inventory data
         const peripherals = peripheral.find("inventory") as LuaMultiReturn<InventoryPeripheral[]>;
@@ -158,29 +379,48 @@ export class Data {
             [StorageType.Output]: outputs,
             [StorageType.Storage]: storages,
             [StorageType.NotInput]: notInputs
-        }, peripherals);
+        }, peripherals, "./inventories.json");
+        this.jobs = new JobQueue("./jobs.json", this.storage);
+    }
+
+    _getRecipeInventories() {
+        const inputs = new LuaSet<string>();
+        const outputs = new LuaSet<string>();
+        // treat outputChest like an input - do not store items, do not index
+        inputs.add(settings.get("castlr.outputChest"));
+        // treat inputChest like an output - do not store items, do index
+        outputs.add(settings.get("castlr.inputChest"));
+        for (const recipe of this._recipeTypes) {
+            inputs.add(recipe.input);
+            outputs.add(recipe.output);
+            if (recipe.fuel?.input !== undefined) inputs.add(recipe.fuel.input);
+        }
+        return $multi(inputs, outputs);
     }
 
     _addRecipe(recipe: Recipe) {
-        let hasExistingType = false;
-        for (const existingType of this._recipeTypes)
-            if (recipe.typeID === existingType.typeID) {
-                hasExistingType = true;
-                break;
-            }
-        if (!hasExistingType) {
+        const recipeType = this.getRecipeType(recipe.typeID);
+        if (recipeType === undefined) {
             this.issues.invalid.push({
                 path: recipe.source,
                 reason: "Recipe type must be declared before adding a recipe using it."
             });
             return;
         }
+        for (const item of recipe.input)
+            if (item.slot !== undefined && this.getInputSlot(recipeType, item.slot) === undefined) {
+                this.issues.invalid.push({
+                    path: recipe.source,
+                    reason: `Input slot "${item.slot}" is not a slot number, or a role of its recipe type.`
+                });
+                return;
+            }
         for (const existingRecipe of this._recipes)
-            if (recipe.output.name === existingRecipe.output.name) {
+            if (recipesMatch(recipe, existingRecipe)) {
                 this.issues.conflict.push({
                     first: {path: existingRecipe.source},
                     second: {path: recipe.source},
-                    reason: "Recipes with outputs matching another are not allowed."
+                    reason: "Recipes duplicating another are not allowed."
                 });
                 return;
             }
@@ -188,10 +428,6 @@ export class Data {
     }
 
     _addRecipeType(recipeType: RecipeType) {
-        if (recipeType.input === undefined || recipeType.output === undefined) {
-            this.issues.invalid.push({path: recipeType.source, reason: "Missing input or output chest."})
-            return;
-        }
         for (const existingType of this._recipeTypes)
             if (existingType.typeID === recipeType.typeID) {
                 this.issues.conflict.push({
@@ -202,23 +438,31 @@ export class Data {
                 return;
             }
         this._recipeTypes.add(recipeType);
-        this._loadRecipesFromDirectory(fs.combine('./recipes/', splitString(recipeType.typeID, ":")[1]));
+        if (fs.getDir(recipeType.source) === fs.combine("./types/"))
+            this._loadRecipesFromDirectory(getLegacyRecipeDirectory(recipeType.typeID));
+        else this._loadRecipesFromDirectory(getRecipeDirectory(recipeType.typeID), true);
     }
 
-    _loadRecipesFromDirectory(directory: string) {
+    _loadRecipesFromDirectory(directory: string, recursive = false) {
+        if (!fs.isDir(directory)) return;
         const files = fs.list(directory);
         for (const file of files)
-            if (endsWith(file, ".json")) {
-                const recipeString = readFile(fs.combine(directory, file));
+            if (recursive && fs.isDir(fs.combine(directory, file))) this._loadRecipesFromDirectory(fs.combine(directory, file), true);
+            else if (endsWith(file, ".json")) {
+                const path = fs.combine(directory, file);
+                const recipeString = readFile(path);
                 const recipeObj: Recipe = textutils.unserialiseJSON(recipeString);
                 if (recipeObj === undefined) {
                     this.issues.invalid.push({
-                        path: fs.combine(directory, file),
+                        path,
                         reason: "Invalid JSON structure."
                     });
-                    return;
+                    continue;
                 }
-                recipeObj.source = fs.combine(directory, file);
+                const schemaIssues = validateRecipe(recipeObj);
+                for (const issue of schemaIssues) this.issues.invalid.push({ path, ...issue });
+                if (schemaIssues.length > 0) continue;
+                recipeObj.source = path;
                 this._addRecipe(recipeObj);
             }
     }
@@ -227,21 +471,85 @@ export class Data {
         this.issues = {conflict: [], invalid: []};
         this._recipeTypes = new LuaSet();
         this._recipes = new LuaSet();
-        const files = fs.list(directory);
-        for (const file of files)
-            if (endsWith(file, ".json")) {
-                const typeString = readFile(fs.combine(directory, file));
-                const typeObj = textutils.unserialiseJSON(typeString);
-                if (typeObj === undefined) {
-                    this.issues.invalid.push({
-                        path: fs.combine(directory, file),
-                        reason: "Invalid JSON structure."
-                    });
-                    return;
-                }
-                typeObj.source = fs.combine(directory, file)
-                this._addRecipeType(typeObj);
+        // types are saved within a directory per namespace, or directly within the directory by earlier versions
+        const paths: string[] = [];
+        for (const file of fs.list(directory)) {
+            const path = fs.combine(directory, file);
+            if (fs.isDir(path)) {
+                for (const namespacedFile of fs.list(path))
+                    if (endsWith(namespacedFile, ".json")) paths.push(fs.combine(path, namespacedFile));
+            } else if (endsWith(file, ".json")) paths.push(path);
+        }
+        for (const path of paths) {
+            const typeString = readFile(path);
+            const typeObj = textutils.unserialiseJSON(typeString);
+            if (typeObj === undefined) {
+                this.issues.invalid.push({
+                    path,
+                    reason: "Invalid JSON structure."
+                });
+                continue;
+            }
+            // the recipes of an invalid type are not loaded, as they cannot be performed
+            const schemaIssues = validateRecipeType(typeObj);
+            for (const issue of schemaIssues) this.issues.invalid.push({ path, ...issue });
+            if (schemaIssues.length > 0) continue;
+            typeObj.source = path;
+            this._addRecipeType(typeObj);
+        }
+        this._detectRecipeCycles();
+        // types may have been added, renamed or deleted since storage was created, changing which inventories are storage
+        if (this.storage !== undefined) {
+            const [inputs, outputs] = this._getRecipeInventories();
+            this.storage.setRecipeInventories(inputs, outputs);
+        }
+    }
+
+    _detectRecipeCycles() {
+        // map of (output item) to the (input item, recipe source) pairs it can be made from
+        const edges = new LuaMap<string, { input: string, source: string }[]>();
+        for (const recipe of this._recipes) {
+            const outputEdges = edges.get(recipe.output.name) ?? [];
+            for (const item of recipe.input)
+                outputEdges.push({ input: item.name, source: recipe.source });
+            edges.set(recipe.output.name, outputEdges);
+        }
+        const visited = new LuaSet<string>();
+        const reported = new LuaSet<string>();
+        // depth first search, a cycle is found when an item on the current path is reached again
+        const path: string[] = [];
+        const onPath = new LuaSet<string>();
+        const visit = (item: string) => {
+            visited.add(item);
+            path.push(item);
+            onPath.add(item);
+            for (const edge of edges.get(item) ?? []) {
+                if (onPath.has(edge.input)) {
+                    let start = path.length - 1;
+                    while (path[start] !== edge.input) start--;
+                    const cycle = path.slice(start);
+                    // reversible pairs are handled when planning
+                    if (cycle.length > 2) {
+                        // identify a cycle by its sorted items, to report it once
+                        const sortedCycle = [...cycle];
+                        table.sort(sortedCycle);
+                        const cycleID = table.concat(sortedCycle, ",");
+                        if (!reported.has(cycleID)) {
+                            reported.add(cycleID);
+                            cycle.push(edge.input);
+                            this.issues.invalid.push({
+                                path: edge.source,
+                                reason: `Recipe cycle found: ${table.concat(cycle, " <- ")}.`
+                            });
+                        }
+                    }
+                } else if (!visited.has(edge.input)) visit(edge.input);
             }
+            path.pop();
+            onPath.delete(item);
+        }
+        for (const [item] of edges)
+            if (!visited.has(item)) visit(item);
     }
 
     getRecipeTypeIDs(): string[] {
@@ -257,21 +565,95 @@ export class Data {
             if (recipeType.typeID === typeID) return recipeType;
     }
 
-    getRecipe(itemOutput: string) {
-        // output name unique, return either matching recipe or undefined.
+    getRecipes(itemOutput: string) {
+        const matchingRecipes: Recipe[] = [];
         for (const recipe of this._recipes)
-            if (recipe.output.name === itemOutput) return recipe;
+            if (itemMatches(recipe.output.name, itemOutput)) matchingRecipes.push(recipe);
+        table.sort(matchingRecipes, (a, b) => (a.priority ?? 0) > (b.priority ?? 0));
+        return matchingRecipes;
+    }
+
+    getInputSlot(recipeType: RecipeType, slot: number | string | undefined) {
+        if (typeof slot === "number") return slot >= 1 ? slot : undefined;
+        if (slot !== undefined) return recipeType.slots?.[slot];
+    }
+
+    _chooseFuel(recipeType: RecipeType | undefined, recipeMultiplier: number, plan: PlanState) {
+        if (recipeType?.fuel === undefined || recipeType.fuel.items.length === 0) return undefined;
+        let chosenFuel: SlotDetail;
+        let mostAvailable = -1;
+        for (const fuel of recipeType.fuel.items) {
+            const count = math.ceil(recipeMultiplier / fuel.value);
+            const available = this.storage.getTotalItemCount(fuel.name) - (plan.itemsGathered.get(fuel.name) ?? 0);
+            if (available >= count) return { name: fuel.name, count };
+            if (available > mostAvailable) {
+                chosenFuel = { name: fuel.name, count };
+                mostAvailable = available;
+            }
+        }
+        return chosenFuel;
     }
 
     getAllRecipes() {
         return this._recipes;
     }
 
-    gatherIngredients(name: string, count: number): [LuaMap<string, number>, (Recipe & { count: number })[]] {
-        const itemsToGather: SlotDetail[] = [];
-        const itemsGathered: LuaMap<string, number> = new LuaMap();
-        const recipeStack: (Recipe & { count: number })[] = [];
-        itemsToGather.push({ name, count });
+    renameRecipeType(typeID: RecipeTypeIdentifier, newTypeID: RecipeTypeIdentifier) {
+        const { source, ...typeData } = this.getRecipeType(typeID);
+        fs.makeDir(getRecipeDirectory(newTypeID));
+        for (const recipe of this._recipes)
+            if (recipe.typeID === typeID) {
+                const { source: recipeSource, ...recipeData } = recipe;
+                fs.delete(recipeSource);
+                writeFile(getAvailableRecipePath(newTypeID, recipe.output.name), textutils.serialiseJSON({ ...recipeData, typeID: newTypeID }));
+            }
+        // the type may have been saved in the layout of earlier versions
+        pruneDirectory(getRecipeDirectory(typeID));
+        pruneDirectory(getLegacyRecipeDirectory(typeID));
+        fs.delete(source);
+        writeFile(getTypePath(newTypeID), textutils.serialiseJSON({ ...typeData, typeID: newTypeID }));
+        this.loadRecipeTypesFromDirectory("./types/");
+    }
+
+    deleteRecipeType(typeID: RecipeTypeIdentifier) {
+        for (const recipe of this._recipes)
+            if (recipe.typeID === typeID) fs.delete(recipe.source);
+        pruneDirectory(getRecipeDirectory(typeID));
+        pruneDirectory(getLegacyRecipeDirectory(typeID));
+        fs.delete(this.getRecipeType(typeID).source);
+        this.loadRecipeTypesFromDirectory("./types/");
+    }
+
+    deleteRecipe(recipe: Recipe) {
+        fs.delete(recipe.source);
+        this.loadRecipeTypesFromDirectory("./types/");
+    }
+
+    _resolveTags(recipe: Recipe, plan: PlanState) {
+        let hasTags = false;
+        for (const item of recipe.input)
+            if (string.sub(item.name, 1, 1) === "#") hasTags = true;
+        if (!hasTags) return recipe;
+        const input: RecipeInput[] = [];
+        for (const item of recipe.input) {
+            let chosenName = item.name;
+            if (string.sub(item.name, 1, 1) === "#") {
+                let mostAvailable = -1;
+                for (const name of this.storage.getItemsWithTag(string.sub(item.name, 2))) {
+                    const available = this.storage.getTotalItemCount(name) - (plan.itemsGathered.get(name) ?? 0);
+                    if (available > mostAvailable) {
+                        chosenName = name;
+                        mostAvailable = available;
+                    }
+                }
+            }
+            input.push({ ...item, name: chosenName });
+        }
+        return { ...recipe, input };
+    }
+
+    _resolveIngredients(itemsToGather: GatherRequest[], plan: PlanState) {
+        const { itemsGathered, itemsCredited, recipeStack } = plan;
         while (itemsToGather.length !== 0) {
             const currentOutput = itemsToGather.pop();
             // determine amount to craft, accounting for items in use by the recipe so far
@@ -279,41 +661,186 @@ export class Data {
             const totalCount = this.storage.getTotalItemCount(currentOutput.name);
             // amount to craft = (amount to craft or take) - (available amount)
             const craftAmount = currentOutput.count - (totalCount - currentUsage);
+            const availableAmount = math.max(0, math.min(currentOutput.count, totalCount - currentUsage));
+            const node: PlanNode = { name: currentOutput.name, taken: availableAmount, missing: 0, crafted: 0, catalyst: currentOutput.catalyst, fuel: currentOutput.fuel, children: [] };
+            // simulated requests have no parent, as they are not displayed
+            if (currentOutput.parent !== undefined) currentOutput.parent.children.push(node);
             if (craftAmount > 0) {
-                // find recipe, use first result (there should only ever be 0 or 1 recipes matching the filter)
-                const recipeToUse = this.getRecipe(currentOutput.name) as Recipe & { count: number };
+                const candidates = this._getUsableRecipes(currentOutput, recipeStack);
+                const chosenRecipe = this._chooseRecipe(candidates, currentOutput, craftAmount, plan);
+                const recipeToUse = chosenRecipe === undefined ? undefined : this._resolveTags(chosenRecipe, plan);
                 if (recipeToUse !== undefined) {
                     // have recipe, but need to craft
                     // take all available, craft deficit
-                    itemsGathered.set(currentOutput.name, totalCount);
+                    itemsGathered.set(currentOutput.name, currentUsage + availableAmount);
                     // get multiplier
                     const recipeMultiplier = math.ceil(craftAmount / recipeToUse.output.count);
-                    for (const item of recipeToUse.input)
-                        itemsToGather.push({ name: item.name, count: item.count * recipeMultiplier });
-                    recipeToUse.count = recipeMultiplier;
-                    recipeStack.push(recipeToUse);
-                // no recipe - take item
-                } else itemsGathered.set(currentOutput.name, currentUsage + craftAmount);
+                    const fuel = this._chooseFuel(this.getRecipeType(recipeToUse.typeID), recipeMultiplier, plan);
+                    pushIngredients(recipeToUse, recipeMultiplier, plan, itemsToGather, withResolving(currentOutput), node, fuel);
+                    // copy, as the same recipe may be used multiple times with different counts
+                    const step: CraftingStep = { ...recipeToUse, count: recipeMultiplier, fuel: fuel === undefined ? undefined : [fuel] };
+                    recipeStack.push(step);
+                    node.recipe = step;
+                    node.crafted = recipeMultiplier * recipeToUse.output.count;
+                    // recipes are performed in reverse order, so only items gathered so far are taken after byproducts are produced
+                    for (const byproduct of recipeToUse.byproducts ?? [])
+                        if ((byproduct.chance ?? 1) >= 1) {
+                            const credited = itemsCredited.get(byproduct.name) ?? 0;
+                            const uncredited = (itemsGathered.get(byproduct.name) ?? 0) - credited;
+                            const credit = math.min(byproduct.count * recipeMultiplier, math.max(0, uncredited));
+                            itemsCredited.set(byproduct.name, credited + credit);
+                        }
+                // no recipe - take item, marking the deficit to be inserted
+                } else {
+                    itemsGathered.set(currentOutput.name, currentUsage + currentOutput.count);
+                    node.missing = currentOutput.count - availableAmount;
+                }
             // have enough already - take item
             } else itemsGathered.set(currentOutput.name, currentUsage + currentOutput.count);
         }
+    }
+
+    _getUsableRecipes(request: GatherRequest, recipeStack: CraftingStep[]) {
+        const usableRecipes: Recipe[] = [];
+        // an item being resolved may be requested again as fuel, such as charcoal to smelt charcoal
+        if (request.resolving.has(request.name)) return usableRecipes;
+        for (const recipe of this.getRecipes(request.name)) {
+            let usable = true;
+            for (const item of recipe.input) {
+                // refuse to walk back into an item already being resolved
+                if (item.name === request.name || request.resolving.has(item.name)) usable = false;
+                // refuse to use both directions of a reversible pair in one plan
+                for (const plannedRecipe of recipeStack)
+                    if (plannedRecipe.output.name === item.name)
+                        for (const plannedItem of plannedRecipe.input)
+                            if (plannedItem.name === request.name) usable = false;
+            }
+            if (usable) usableRecipes.push(recipe);
+        }
+        return usableRecipes;
+    }
+
+    _chooseRecipe(candidates: Recipe[], request: GatherRequest, craftAmount: number, plan: PlanState) {
+        if (candidates.length <= 1) return candidates[0];
+        const name = request.name;
+        const resolving = withResolving(request);
+        let bestRecipe: Recipe;
+        let bestMissing: number;
+        let bestCrafts: number;
+        for (const candidate of candidates) {
+            // resolve candidate against a copy of the current plan, leaving the original untouched
+            const simulatedPlan = copyPlan(plan);
+            const resolvedCandidate = this._resolveTags(candidate, simulatedPlan);
+            simulatedPlan.itemsGathered.set(name, math.max(plan.itemsGathered.get(name) ?? 0, this.storage.getTotalItemCount(name)));
+            const recipeMultiplier = math.ceil(craftAmount / candidate.output.count);
+            simulatedPlan.recipeStack.push({ ...resolvedCandidate, count: recipeMultiplier });
+            const simulatedToGather: GatherRequest[] = [];
+            const fuel = this._chooseFuel(this.getRecipeType(candidate.typeID), recipeMultiplier, simulatedPlan);
+            pushIngredients(resolvedCandidate, recipeMultiplier, simulatedPlan, simulatedToGather, resolving, undefined, fuel);
+            this._resolveIngredients(simulatedToGather, simulatedPlan);
+            const crafts = simulatedPlan.recipeStack.length - plan.recipeStack.length;
+            // count items that would have to be inserted
+            let missing = 0;
+            for (const [itemName, usedCount] of simulatedPlan.itemsGathered) {
+                const credited = simulatedPlan.itemsCredited.get(itemName) ?? 0;
+                missing += math.max(0, usedCount - credited - this.storage.getTotalItemCount(itemName));
+            }
+            // candidates are ordered by priority, so only replace on strict improvement
+            if (bestRecipe === undefined || missing < bestMissing || (missing === bestMissing && crafts < bestCrafts)) {
+                bestRecipe = candidate;
+                bestMissing = missing;
+                bestCrafts = crafts;
+            }
+        }
+        return bestRecipe;
+    }
+
+    gatherIngredients(name: string, count: number): [LuaMap<string, number>, CraftingStep[], PlanNode, LuaMap<string, number>] {
+        const [itemsGathered, recipeStack, roots, itemsBorrowed] = this.gatherOrderIngredients([{ name, count }]);
+        return [itemsGathered, recipeStack, roots[0], itemsBorrowed];
+    }
+
+    gatherOrderIngredients(order: SlotDetail[]): [LuaMap<string, number>, CraftingStep[], PlanNode[], LuaMap<string, number>] {
+        const itemsToGather: GatherRequest[] = [];
+        const plan: PlanState = { itemsGathered: new LuaMap(), itemsCredited: new LuaMap(), itemsBorrowed: new LuaMap(), recipeStack: [] };
+        // each item ordered is added as a child of the same node, which is not itself displayed
+        const orderNode: PlanNode = { name: "", taken: 0, missing: 0, crafted: 0, children: [] };
+        // pushed in reverse, as the items to gather are traversed as a stack
+        for (let i = order.length - 1; i >= 0; i--)
+            itemsToGather.push({ name: order[i].name, count: order[i].count, resolving: new LuaSet(), parent: orderNode });
+        this._resolveIngredients(itemsToGather, plan);
+        const { itemsGathered, itemsCredited, itemsBorrowed, recipeStack } = plan;
+        for (const [itemName, credited] of itemsCredited)
+            itemsGathered.set(itemName, itemsGathered.get(itemName) - credited);
         // resolve duplicates, preserve order
-        const duplicateRecipes = new LuaMap<string, { firstSeen: number, totalRecipeCount: number }>();
+        // recipes are identified by their source, as alternative recipes may share an output
+        // and by their inputs, as the items chosen for tag ingredients may differ
+        const getRecipeKey = (recipe: Recipe) => {
+            const inputNames: string[] = [];
+            for (const item of recipe.input) inputNames.push(item.name);
+            return `${recipe.source}|${table.concat(inputNames, ",")}`;
+        }
+        const duplicateRecipes = new LuaMap<string, { firstSeen: number, totalRecipeCount: number, fuel: SlotDetail[] }>();
         for (const i of $range(0, recipeStack.length - 1)) {
             const recipe = recipeStack[i];
-            const currentData = duplicateRecipes.get(recipe.output.name) ?? { firstSeen: i, totalRecipeCount: 0 };
+            const currentData = duplicateRecipes.get(getRecipeKey(recipe)) ?? { firstSeen: i, totalRecipeCount: 0, fuel: [] };
             currentData.totalRecipeCount += recipe.count;
-            duplicateRecipes.set(recipe.output.name, currentData);
+            // the fuel chosen may differ between duplicates, depending on what was available at the time
+            for (const fuel of recipe.fuel ?? []) {
+                const existingFuel = currentData.fuel.find(item => item.name === fuel.name);
+                if (existingFuel !== undefined) existingFuel.count += fuel.count;
+                else currentData.fuel.push({ ...fuel });
+            }
+            duplicateRecipes.set(getRecipeKey(recipe), currentData);
         }
-        const newRecipeStack: (Recipe & { count: number })[] = [];
+        const newRecipeStack: CraftingStep[] = [];
         for (const i of $range(0, recipeStack.length - 1)) {
             const recipe = recipeStack[i];
-            const data = duplicateRecipes.get(recipe.output.name);
+            const data = duplicateRecipes.get(getRecipeKey(recipe));
             if (i === data.firstSeen) {
                 recipe.count = data.totalRecipeCount;
+                if (data.fuel.length > 0) recipe.fuel = data.fuel;
                 newRecipeStack.push(recipe);
             }
         }
-        return [itemsGathered, newRecipeStack];
+        return [itemsGathered, newRecipeStack, orderNode.children, itemsBorrowed];
+    }
+
+    getLimitingItem(itemsUsed: LuaMap<string, number>) {
+        let limitingItem: string;
+        let largestShortfall = 0;
+        for (const [name, usedCount] of itemsUsed) {
+            const shortfall = usedCount - this.storage.getTotalItemCount(name);
+            if (shortfall > largestShortfall) {
+                largestShortfall = shortfall;
+                limitingItem = name;
+            }
+        }
+        return limitingItem;
+    }
+
+    getMaxCraftable(name: string) {
+        const getLimitingItemFor = (count: number) => this.getLimitingItem(this.gatherIngredients(name, count)[0]);
+        // double until an amount that cannot be crafted is found, bounded to prevent an endless search
+        let craftable = 0;
+        let uncraftable = 1;
+        let limitingItem = getLimitingItemFor(uncraftable);
+        while (limitingItem === undefined) {
+            craftable = uncraftable;
+            uncraftable *= 2;
+            if (uncraftable > 2 ** 20) return $multi(craftable, undefined);
+            limitingItem = getLimitingItemFor(uncraftable);
+        }
+        // binary search between the largest known craftable amount and smallest known uncraftable amount
+        while (uncraftable - craftable > 1) {
+            const middle = math.floor((craftable + uncraftable) / 2);
+            const middleLimitingItem = getLimitingItemFor(middle);
+            if (middleLimitingItem === undefined) craftable = middle;
+            else {
+                uncraftable = middle;
+                limitingItem = middleLimitingItem;
+            }
+        }
+        return $multi(craftable, limitingItem);
     }
 }
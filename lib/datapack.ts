@@ -0,0 +1,272 @@
+import {
+    readFile,
+    writeFile,
+    endsWith
+} from "./utils";
+import { Data, recipesMatch } from "./data";
+import { getAvailableRecipePath } from "./layout";
+
+// an ingredient as given in a datapack: an item ID, a tag prefixed with "#", an object with either, or a list of alternatives
+type DatapackIngredient = string | { item?: string, tag?: string, count?: number } | DatapackIngredient[];
+// a result as given in a datapack: an item ID, or an object with the item ID under "item" or "id"
+type DatapackResult = string | { item?: string, id?: string, count?: number, chance?: number };
+// a recipe as given in a datapack, with only the fields used in conversion
+type DatapackRecipe = {
+    type: string
+    // shaped recipes
+    pattern?: string[]
+    key?: { [symbol: string]: DatapackIngredient }
+    // shapeless and most modded recipes
+    ingredients?: DatapackIngredient[]
+    // cooking and stonecutting recipes
+    ingredient?: DatapackIngredient
+    // smithing recipes
+    template?: DatapackIngredient
+    base?: DatapackIngredient
+    addition?: DatapackIngredient
+    result?: DatapackResult
+    // modded recipes with multiple outputs
+    results?: DatapackResult[]
+    // the result count of older stonecutting recipes
+    count?: number
+};
+
+/**
+ * Reads an ingredient from a datapack, using the first of a list of alternatives.
+ * @param ingredient The ingredient to read.
+ * @returns The item ID or tag, and the amount required, or undefined if it cannot be read, such as a fluid.
+ */
+const parseIngredient = (ingredient: DatapackIngredient): SlotDetail | undefined => {
+    if (typeof ingredient === "string") return { name: ingredient, count: 1 };
+    if (ingredient === undefined) return undefined;
+    if ((ingredient as DatapackIngredient[])[0] !== undefined) return parseIngredient((ingredient as DatapackIngredient[])[0]);
+    const { item, tag, count } = ingredient as { item?: string, tag?: string, count?: number };
+    if (item !== undefined) return { name: item, count: count ?? 1 };
+    if (tag !== undefined) return { name: `#${tag}`, count: count ?? 1 };
+}
+/**
+ * Reads a result from a datapack.
+ * @param result The result to read.
+ * @param count The count given alongside the result, for formats that do not include it within the result.
+ * @returns The item ID and amount produced, alongside its chance if given, or undefined if it cannot be read.
+ */
+const parseResult = (result: DatapackResult, count?: number): (SlotDetail & { chance?: number }) | undefined => {
+    if (typeof result === "string") return { name: result, count: count ?? 1 };
+    if (result === undefined) return undefined;
+    const name = result.item ?? result.id;
+    if (name === undefined) return undefined;
+    return { name, count: result.count ?? count ?? 1, chance: result.chance };
+}
+
+/**
+ * Converts recipes from Minecraft datapacks, such as vanilla or modded recipe JSON, into CASTLR recipes.
+ * Each datapack recipe type is mapped to a CASTLR {@link RecipeType}, with the mapping persisted to disk.
+ * Recipes that cannot be converted are reported through {@link issues}, in the same form as {@link Data.issues}.
+ */
+export interface DatapackImporter {
+    /**
+     * Reference to {@link Data}, for the recipe types and recipes already loaded.
+     */
+    _data: Data;
+
+    /**
+     * The path of the file the type mapping is persisted to.
+     */
+    _mappingPath: string;
+
+    /**
+     * A map of datapack recipe types to CASTLR recipe type IDs. An empty string marks a type chosen to be skipped.
+     */
+    _typeMapping: { [datapackType: string]: RecipeTypeIdentifier };
+
+    /**
+     * Container for the recipes skipped during the last import.
+     */
+    issues: DefinitionIssues;
+
+    /**
+     * Creates a DatapackImporter instance, loading any type mapping persisted at the given path.
+     * @param data The CASTLR data instance.
+     * @param mappingPath The path of the file to persist the type mapping to.
+     */
+    constructor(data: Data, mappingPath: string): void;
+
+    /**
+     * Accessor method: get the CASTLR recipe type a datapack recipe type is mapped to.
+     * @param datapackType The datapack recipe type, such as "minecraft:smelting".
+     * @returns The CASTLR recipe type ID, an empty string if the type is skipped, or undefined if it is not mapped.
+     */
+    getTypeMapping(datapackType: string): RecipeTypeIdentifier | undefined;
+
+    /**
+     * Maps a datapack recipe type to a CASTLR recipe type, saving the mapping to disk.
+     * @param datapackType The datapack recipe type, such as "minecraft:smelting".
+     * @param typeID The CASTLR recipe type ID, or an empty string to skip recipes of the type.
+     */
+    setTypeMapping(datapackType: string, typeID: RecipeTypeIdentifier): void;
+
+    /**
+     * Finds the recipe files within a directory, searching recursively.
+     * Where a directory is a datapack, only files within "recipe" or "recipes" directories are used, skipping advancements and tags.
+     * @param directory The directory to search.
+     * @returns The paths of the recipe files found.
+     */
+    _findRecipeFiles(directory: string): string[];
+
+    /**
+     * Converts a datapack recipe into a CASTLR recipe, reporting any reason it cannot be through {@link issues}.
+     * Ingredients are counted by item or tag, where only the first of a list of alternatives is used.
+     * Ingredients of a shaped recipe are instead kept as one input per position in the pattern, placed in the matching slot.
+     * @param datapackRecipe The recipe read from the datapack.
+     * @param typeID The CASTLR recipe type to use.
+     * @param path The path the recipe was read from, for reporting.
+     * @returns The converted {@link Recipe}, or undefined if it could not be converted.
+     */
+    _convertRecipe(datapackRecipe: DatapackRecipe, typeID: RecipeTypeIdentifier, path: string): Recipe | undefined;
+
+    /**
+     * Imports all recipes within a directory, writing each into the directory of its type, see {@link getRecipeDirectory}.
+     * Recipes duplicating one already loaded or imported are skipped.
+     * @param directory The directory to import from, such as a datapack on a disk.
+     * @param chooseType Called once per unmapped datapack recipe type, returning the CASTLR recipe type ID to use, or an empty string to skip it.
+     * @returns The number of recipes written.
+     */
+    importDirectory(directory: string, chooseType: (this: void, datapackType: string) => RecipeTypeIdentifier): number;
+}
+
+export class DatapackImporter {
+    _data: Data;
+    _mappingPath: string;
+    _typeMapping: { [datapackType: string]: RecipeTypeIdentifier };
+    issues: DefinitionIssues;
+
+    constructor(data: Data, mappingPath: string) {
+        this._data = data;
+        this._mappingPath = mappingPath;
+        this._typeMapping = {};
+        this.issues = { conflict: [], invalid: [] };
+        if (fs.exists(mappingPath))
+            this._typeMapping = textutils.unserialiseJSON(readFile(mappingPath)) ?? {};
+    }
+
+    getTypeMapping(datapackType: string) {
+        return this._typeMapping[datapackType];
+    }
+
+    setTypeMapping(datapackType: string, typeID: RecipeTypeIdentifier) {
+        this._typeMapping[datapackType] = typeID;
+        writeFile(this._mappingPath, textutils.serialiseJSON(this._typeMapping));
+    }
+
+    _findRecipeFiles(directory: string) {
+        const allFiles: string[] = [];
+        const recipeFiles: string[] = [];
+        const search = (currentDirectory: string, inRecipeDirectory: boolean) => {
+            for (const file of fs.list(currentDirectory)) {
+                const path = fs.combine(currentDirectory, file);
+                if (fs.isDir(path)) search(path, inRecipeDirectory || file === "recipe" || file === "recipes");
+                else if (endsWith(file, ".json")) {
+                    allFiles.push(path);
+                    if (inRecipeDirectory) recipeFiles.push(path);
+                }
+            }
+        }
+        search(directory, false);
+        return recipeFiles.length > 0 ? recipeFiles : allFiles;
+    }
+
+    _convertRecipe(datapackRecipe: DatapackRecipe, typeID: RecipeTypeIdentifier, path: string) {
+        const ingredients: DatapackIngredient[] = [];
+        // the slot of each ingredient placed by a pattern, by the ingredient's index
+        const slots: number[] = [];
+        if (datapackRecipe.pattern !== undefined && datapackRecipe.key !== undefined) {
+            // each symbol in the pattern is a single ingredient, spaces are empty
+            // slots are numbered across a grid at least as wide as a crafting table, such as a crafter's 3x3
+            let width = 3;
+            for (const row of datapackRecipe.pattern) width = math.max(width, row.length);
+            for (const rowIndex of $range(0, datapackRecipe.pattern.length - 1)) {
+                const row = datapackRecipe.pattern[rowIndex];
+                for (const i of $range(1, row.length)) {
+                    const symbol = string.sub(row, i, i);
+                    if (symbol === " ") continue;
+                    slots[ingredients.length] = rowIndex * width + i;
+                    ingredients.push(datapackRecipe.key[symbol]);
+                }
+            }
+        } else if (datapackRecipe.ingredients !== undefined) {
+            for (const ingredient of datapackRecipe.ingredients) ingredients.push(ingredient);
+        } else if (datapackRecipe.ingredient !== undefined) {
+            ingredients.push(datapackRecipe.ingredient);
+        } else if (datapackRecipe.base !== undefined) {
+            for (const ingredient of [datapackRecipe.template, datapackRecipe.base, datapackRecipe.addition])
+                if (ingredient !== undefined) ingredients.push(ingredient);
+        }
+        const results: (SlotDetail & { chance?: number })[] = [];
+        for (const result of datapackRecipe.results ?? [datapackRecipe.result]) {
+            const parsedResult = parseResult(result, datapackRecipe.count);
+            if (parsedResult !== undefined) results.push(parsedResult);
+        }
+        if (ingredients.length === 0 || results.length === 0) {
+            this.issues.invalid.push({ path, reason: `Unsupported recipe structure for ${datapackRecipe.type}.` });
+            return undefined;
+        }
+        // count unplaced ingredients by item or tag, preserving the order they first appear in
+        // placed ingredients are kept as one input per slot, as the same item may be needed at several
+        const input: RecipeInput[] = [];
+        for (const i of $range(0, ingredients.length - 1)) {
+            const parsedIngredient = parseIngredient(ingredients[i]);
+            if (parsedIngredient === undefined) {
+                this.issues.invalid.push({ path, reason: "Ingredient could not be read, such as a fluid." });
+                return undefined;
+            }
+            if (slots[i] !== undefined) {
+                input.push({ ...parsedIngredient, slot: slots[i] });
+                continue;
+            }
+            const existingInput = input.find(item => item.name === parsedIngredient.name);
+            if (existingInput !== undefined) existingInput.count += parsedIngredient.count;
+            else input.push(parsedIngredient);
+        }
+        const [output, ...byproducts] = results;
+        return { typeID, input, output: { name: output.name, count: output.count }, byproducts, source: path };
+    }
+
+    importDirectory(directory: string, chooseType: (this: void, datapackType: string) => RecipeTypeIdentifier) {
+        this.issues = { conflict: [], invalid: [] };
+        const importedRecipes: Recipe[] = [];
+        for (const path of this._findRecipeFiles(directory)) {
+            const datapackRecipe: DatapackRecipe = textutils.unserialiseJSON(readFile(path));
+            if (datapackRecipe === undefined || typeof datapackRecipe.type !== "string") {
+                this.issues.invalid.push({ path, reason: "Invalid JSON structure." });
+                continue;
+            }
+            let typeID = this.getTypeMapping(datapackRecipe.type);
+            // a mapped type may have since been removed
+            if (typeID === undefined || (typeID !== "" && this._data.getRecipeType(typeID) === undefined)) {
+                typeID = chooseType(datapackRecipe.type);
+                this.setTypeMapping(datapackRecipe.type, typeID);
+            }
+            if (typeID === "") {
+                this.issues.invalid.push({ path, reason: `Recipe type ${datapackRecipe.type} is not mapped to a CASTLR recipe type.` });
+                continue;
+            }
+            const recipe = this._convertRecipe(datapackRecipe, typeID, path);
+            if (recipe === undefined) continue;
+            const duplicate = [...this._data.getRecipes(recipe.output.name), ...importedRecipes].find(existingRecipe => recipesMatch(recipe, existingRecipe));
+            if (duplicate !== undefined) {
+                this.issues.conflict.push({
+                    first: { path: duplicate.source },
+                    second: { path },
+                    reason: "Recipes duplicating another are not allowed."
+                });
+                continue;
+            }
+            const { source, ...recipeData } = recipe;
+            const saveLocation = getAvailableRecipePath(typeID, recipe.output.name);
+            writeFile(saveLocation, textutils.serialiseJSON(recipeData));
+            recipe.source = saveLocation;
+            importedRecipes.push(recipe);
+        }
+        return importedRecipes.length;
+    }
+}
@@ -1,3 +1,31 @@
+/**
+ * Get the key identifying an item, distinguishing variants of the same item, such as potions or enchanted books.
+ * @param item The item, as given by {@link Inventory.list}.
+ * @returns The item name, followed by "@" and its hashed NBT where it has any, such as "minecraft:potion@<hash>".
+ */
+export const getItemKey = (item: SlotDetail) => item.nbt === undefined ? item.name : `${item.name}@${item.nbt}`;
+/**
+ * Splits an item key into its item name and hashed NBT.
+ * @param key The item key, as given by {@link getItemKey}, or an item name alone.
+ * @returns The item name.
+ * @returns The hashed NBT, or undefined if the key is an item name alone.
+ */
+export const splitItemKey = (key: string): LuaMultiReturn<[string, string | undefined]> => {
+    const [name, nbt] = string.match(key, "^([^@]*)@?(.*)$");
+    return $multi(name, nbt === "" ? undefined : nbt);
+}
+/**
+ * Determines whether an item is matched by a name: either its exact key, or its item name alone, which matches any variant.
+ * @param key The key of the item, as given by {@link getItemKey}.
+ * @param name The name to match, such as a recipe input or an item to take.
+ * @returns Whether the item matches.
+ */
+export const itemMatches = (key: string, name: string) => {
+    if (key === name) return true;
+    const [, nbt] = splitItemKey(name);
+    return nbt === undefined && splitItemKey(key)[0] === name;
+}
+
 export interface Inventory {
     /**
      * This is the maximum amount of an item that can be stored in a single slot in the wrapped inventory.
@@ -11,19 +39,27 @@ export interface Inventory {
      * @param peripheralName The name passed to peripheral.wrap() to give an inventory peripheral.
      * @param sType The type of storage that the {@link Inventory} can be filtered by.
      * @param itemLimit The maximum amount that an item can stack to in a single slot.
+     * @param index The contents of the inventory persisted by an earlier run, used in place of calling the peripheral until {@link verify} is called.
      */
-    constructor(peripheralName: string, itemLimit?: number): void;
+    constructor(peripheralName: string, itemLimit?: number, index?: InventoryIndex): void;
 
     /**
      * This is the core data structure that makes the wrapper fast.
-     * When searching for an item by name, the slots it is in, as well as the counts, are accessible in the map.
+     * When searching for an item by key, the slots it is in, as well as the counts, are accessible in the map.
      * SlotCounts is a map of slot indexes to the count stored at that index.
-     * @returns A map of item names to SlotCounts
+     * @returns A map of item keys, as given by {@link getItemKey}, to SlotCounts
      */
     getSlots(): LuaMap<string, SlotCounts>;
 
     /**
-     * @param name The item to get the count of.
+     * Finds the keys of the items in the inventory matched by a name, see {@link itemMatches}.
+     * @param name The item name, matching any variant, or an item key, matching only that variant.
+     * @returns The matching item keys.
+     */
+    getMatchingKeys(name: string): string[];
+
+    /**
+     * @param name The item to get the count of, matching any variant unless an item key is given.
      * @returns The amount stored of the given item.
      */
     getItemCount(name: string): number;
@@ -36,7 +72,7 @@ export interface Inventory {
     /**
      * This function returns a coroutine that yields slot indexes for the inventory at which the specified item can be inserted.
      * If it is dead, there are no more available slots for the item to be inserted at.
-     * @param name The name of the item to find a slot for.
+     * @param name The key of the item to find a slot for, as only the same variant stacks.
      * @returns A coroutine to find subsequent available slots.
      */
     getNextAvailableSlot(name: string): (this: void) => LuaMultiReturn<any[]>;
@@ -45,7 +81,7 @@ export interface Inventory {
      * This function exists to keep the cache in sync with the real inventory.
      * Desynchronisation can be caused by inserting an item into the underlying inventory, in which case this should be called.
      * It is automatically handled when using the wrapper to push to another {@link Inventory}.
-     * @param name The name of the item being recieved.
+     * @param name The key of the item being recieved, as given by {@link getItemKey}.
      * @param slot The slot it is inserted into.
      * @param count The amount being inserted.
      */
@@ -59,6 +95,44 @@ export interface Inventory {
      */
     syncData(): void;
 
+    /**
+     * Accessor method: get whether the cached contents have been read from the peripheral, rather than a persisted index.
+     * @returns Whether the inventory has been synchronised since it was created.
+     */
+    isVerified(): boolean;
+
+    /**
+     * Synchronises an inventory created from a persisted index, see {@link syncData}, re-reading its size.
+     * Inventories already synchronised are left unchanged, so this can be called before every use.
+     */
+    verify(): void;
+
+    /**
+     * Gets the cached contents of the inventory, to be persisted and passed to the constructor by a later run.
+     * @returns The size, item limit and occupied slots of the inventory.
+     */
+    toIndex(): InventoryIndex;
+
+    /**
+     * Accessor method: get when the inventory was last synchronised with the peripheral.
+     * @returns The time of the last synchronisation, in milliseconds as given by `os.epoch("utc")`, or undefined if it has not been since being loaded from an index.
+     */
+    getLastVerified(): number | undefined;
+
+    /**
+     * Accessor method: get the number of times items have been pushed to or from the inventory since it was last synchronised.
+     * @returns The number of pushes since the last synchronisation.
+     */
+    getTraffic(): number;
+
+    /**
+     * Synchronises the inventory, see {@link syncData}, finding where the cached contents had drifted from the peripheral.
+     * Drift is caused by changes made outside of CASTLR, such as by players or hoppers.
+     * If items are pushed to or from the inventory while it is read, the cache is left unchanged, as the read may already be stale.
+     * @returns A map of item keys to the actual count less the cached count, excluding items without drift, or undefined if the cache was left unchanged.
+     */
+    resync(): LuaMap<string, number> | undefined;
+
     /**
      * Gets the number of slots without items.
      * @returns The number of slots containing no items.
@@ -107,15 +181,16 @@ export interface Inventory {
 
     /**
      * This function will push items from the wrapped Inventory to the destination Inventory.
-     * It follows the default CC API, without the ability to specify a destination slot;
-     * the wrapper is for managing large storages, not fine control.
+     * It follows the default CC API. Without a destination slot, slots are chosen using {@link getNextAvailableSlot};
+     * a destination slot is only needed for machines that expect items in specific slots.
      * @see {@link https://tweaked.cc/generic_peripheral/inventory.html#v:pushItems|tweaked.cc#pushItems}
      * @param to The wrapped inventory to push items to.
      * @param fromSlot: The slot from which to move items.
      * @param limit The maximum amount of items to move.
+     * @param toSlot The slot to move items to, if only a single slot may be used.
      * @returns The amount of items actually moved.
      */
-    pushItems(to: Inventory, fromSlot: number, limit?: number): number;
+    pushItems(to: Inventory, fromSlot: number, limit?: number, toSlot?: number): number;
 
     /**
      * Calls pushItems on `from`, with the to value as `this`.
@@ -123,9 +198,10 @@ export interface Inventory {
      * @param from The inventory to pull from.
      * @param fromSlot The slot to pull items from.
      * @param limit The maximum amount of items to move.
+     * @param toSlot The slot to move items to, if only a single slot may be used.
      * @returns The actual amount of items moved.
      */
-    pullItems(from: Inventory, fromSlot: number, limit?: number): number;
+    pullItems(from: Inventory, fromSlot: number, limit?: number, toSlot?: number): number;
 }
 
 /**
@@ -138,18 +214,38 @@ export class Inventory {
     _peripheral: InventoryPeripheral;
     // The name of the wrapped peripheral.
     _name: string;
-    // map of (item name) to (map of (slot index) to (item count))
+    // map of (item key) to (map of (slot index) to (item count))
     _slots: LuaMap<string, SlotCounts>;
     // A cache for _peripheral.list()
     _list: { [index: number]: SlotDetail };
     // The size of the wrapped peripheral.
     _size: number;
+    // Whether _list has been read from the peripheral, rather than a persisted index.
+    _verified: boolean;
+    // The value of os.epoch("utc") when _list was last read from the peripheral.
+    _lastVerified?: number;
+    // The number of pushes to or from the inventory since _list was last read.
+    _traffic: number;
+    // The number of pushes to or from the inventory that are yet to complete.
+    _pendingPushes: number;
 
     itemLimit: number;
 
-    constructor(peripheralName: string, itemLimit?: number) {
+    constructor(peripheralName: string, itemLimit?: number, index?: InventoryIndex) {
         this._peripheral = peripheral.wrap(peripheralName) as InventoryPeripheral;
         this._name = peripheralName;
+        this._traffic = 0;
+        this._pendingPushes = 0;
+        if (index !== undefined) {
+            // no peripheral calls are made, the index is checked when the inventory is first used
+            this._size = index.size;
+            this.itemLimit = itemLimit ?? index.itemLimit;
+            const list: { [index: number]: SlotDetail } = {};
+            for (const { slot, name, count, nbt } of index.items) list[slot] = { name, count, nbt };
+            this._indexList(list);
+            this._verified = false;
+            return;
+        }
         this._size = this._peripheral.size();
         this.itemLimit = itemLimit ?? this._peripheral.getItemLimit(1);
         this.syncData();
@@ -159,12 +255,18 @@ export class Inventory {
         return this._slots;
     }
 
+    getMatchingKeys(name: string): string[] {
+        const keys: string[] = [];
+        for (const [key] of this._slots)
+            if (itemMatches(key, name)) keys.push(key);
+        return keys;
+    }
+
     getItemCount(name: string): number {
         let total = 0;
-        const slots = this._slots.get(name);
-        if (slots === undefined) return 0;
-        for (const [, count] of slots)
-            total += count;
+        for (const key of this.getMatchingKeys(name))
+            for (const [, count] of this._slots.get(key))
+                total += count;
         return total;
     }
 
@@ -204,7 +306,8 @@ export class Inventory {
         currentSlots.set(slot, newAmount);
         // update this._list
         if (this._list[slot] === undefined) {
-            const slotDetail: SlotDetail = { name, count };
+            const [itemName, nbt] = splitItemKey(name);
+            const slotDetail: SlotDetail = { name: itemName, count, nbt };
             this._list[slot] = slotDetail;
         } else {
             this._list[slot].count = newAmount;
@@ -212,13 +315,71 @@ export class Inventory {
     }
 
     syncData() {
+        this._indexList(this._peripheral.list());
+        this._verified = true;
+        this._lastVerified = os.epoch("utc");
+        this._traffic = 0;
+    }
+
+    isVerified() {
+        return this._verified;
+    }
+
+    verify() {
+        if (this._verified) return;
+        this._size = this._peripheral.size();
+        this.syncData();
+    }
+
+    toIndex(): InventoryIndex {
+        const items: (SlotDetail & { slot: number })[] = [];
+        for (const [slot, item] of pairs(this._list))
+            if (item.count !== undefined) items.push({ slot, name: item.name, count: item.count, nbt: item.nbt });
+        return { size: this._size, itemLimit: this.itemLimit, items };
+    }
+
+    getLastVerified() {
+        return this._lastVerified;
+    }
+
+    getTraffic() {
+        return this._traffic;
+    }
+
+    resync() {
+        if (this._pendingPushes > 0) return undefined;
+        const traffic = this._traffic;
+        const size = this._verified ? this._size : this._peripheral.size();
+        const list = this._peripheral.list();
+        // the peripheral calls yield, during which items may have been pushed
+        if (this._pendingPushes > 0 || this._traffic !== traffic) return undefined;
+        const drift = new LuaMap<string, number>();
+        for (const [key, slotCounts] of this._slots)
+            for (const [, count] of slotCounts) drift.set(key, (drift.get(key) ?? 0) - count);
+        for (const [, item] of pairs(list)) {
+            const key = getItemKey(item);
+            drift.set(key, (drift.get(key) ?? 0) + item.count);
+        }
+        for (const [key, difference] of drift)
+            if (difference === 0) drift.delete(key);
+        this._size = size;
+        this._indexList(list);
+        this._verified = true;
+        this._lastVerified = os.epoch("utc");
+        this._traffic = 0;
+        return drift;
+    }
+
+    // replaces _list, rebuilding _slots from it
+    _indexList(list: { [index: number]: SlotDetail }) {
         this._slots = new LuaMap();
-        this._list = this._peripheral.list();
+        this._list = list;
         for (const [slot, item] of pairs(this._list)) {
-            let currentSlots = this._slots.get(item.name);
+            const key = getItemKey(item);
+            let currentSlots = this._slots.get(key);
             if (currentSlots === undefined) {
                 currentSlots = new LuaMap();
-                this._slots.set(item.name, currentSlots);
+                this._slots.set(key, currentSlots);
             }
             currentSlots.set(slot, item.count);
         }
@@ -251,29 +412,42 @@ export class Inventory {
         return this._peripheral.getItemLimit(slot);
     }
 
-    pushItems(to: Inventory, fromSlot: number, limit?: number) {
+    pushItems(to: Inventory, fromSlot: number, limit?: number, toSlot?: number) {
         const itemToMove = this._list[fromSlot];
+        const key = getItemKey(itemToMove);
         limit = limit ?? (itemToMove.count ?? 0);
         let totalMoved = 0;
-        const slotGenerator = to.getNextAvailableSlot(itemToMove.name);
-        while (totalMoved < limit && itemToMove.count !== undefined) {
-            const [nextSlot] = slotGenerator();
-            if (nextSlot === undefined) return totalMoved;
-            const amountMoved = this._peripheral.pushItems(to.getName(), fromSlot, limit - totalMoved, nextSlot);
-            totalMoved += amountMoved;
-            // sync stored data in src
-            // setting value to 'undefined' is the same as removing it
-            let newSlotCount: number;
-            if (itemToMove.count !== amountMoved) newSlotCount = itemToMove.count - amountMoved;
-            this._slots.get(itemToMove.name).set(fromSlot, newSlotCount);
-            itemToMove.count = newSlotCount;
-            // sync stored data in dest
-            to.receiveItems(itemToMove.name, nextSlot, amountMoved);
+        // marks both inventories as changing, see resync
+        for (const inv of [this, to]) {
+            inv._pendingPushes++;
+            inv._traffic++;
+        }
+        const slotGenerator = toSlot === undefined
+            ? to.getNextAvailableSlot(key)
+            : coroutine.wrap(() => coroutine.yield(toSlot)) as (this: void) => LuaMultiReturn<any[]>;
+        try {
+            while (totalMoved < limit && itemToMove.count !== undefined) {
+                const [nextSlot] = slotGenerator();
+                if (nextSlot === undefined) break;
+                const amountMoved = this._peripheral.pushItems(to.getName(), fromSlot, limit - totalMoved, nextSlot);
+                totalMoved += amountMoved;
+                // sync stored data in src
+                // setting value to 'undefined' is the same as removing it
+                let newSlotCount: number;
+                if (itemToMove.count !== amountMoved) newSlotCount = itemToMove.count - amountMoved;
+                this._slots.get(key).set(fromSlot, newSlotCount);
+                itemToMove.count = newSlotCount;
+                // sync stored data in dest
+                if (amountMoved > 0) to.receiveItems(key, nextSlot, amountMoved);
+            }
+        } finally {
+            // the push fails if either inventory is disconnected mid-push, which must not stop it being resynced
+            for (const inv of [this, to]) inv._pendingPushes--;
         }
         return totalMoved;
     }
 
-    pullItems(from: Inventory, fromSlot: number, limit?: number) {
-        return from.pushItems(this, fromSlot, limit);
+    pullItems(from: Inventory, fromSlot: number, limit?: number, toSlot?: number) {
+        return from.pushItems(this, fromSlot, limit, toSlot);
     }
 }
\ No newline at end of file
@@ -0,0 +1,257 @@
+import {
+    readFile,
+    writeFile
+} from "./utils";
+import { Storage } from "./storage";
+import { itemMatches } from "./inventory";
+
+/**
+ * A queue of crafting jobs, persisted to disk after every change.
+ * This allows crafts to be resumed or rolled back after CASTLR is restarted, such as by a chunk unloading mid-craft.
+ * Each job reserves the items it is yet to use in {@link Storage}, preventing other operations from taking them.
+ */
+export interface JobQueue {
+    /**
+     * The path of the file the queue is persisted to.
+     */
+    _path: string;
+
+    /**
+     * All unfinished jobs, in the order they were queued.
+     */
+    _jobs: CraftingJob[];
+
+    /**
+     * Reference to {@link Storage}, in which the items of each job are reserved.
+     */
+    _storage: Storage;
+
+    /**
+     * Creates a JobQueue instance, loading any jobs persisted at the given path.
+     * @param path The path of the file to persist the queue to.
+     * @param storage The storage to reserve the items of each job in.
+     */
+    constructor(path: string, storage: Storage): void;
+
+    /**
+     * Loads the queue from disk, replacing any jobs currently held.
+     * The items reserved by each job are reserved again in storage.
+     * A missing or invalid file is treated as an empty queue.
+     */
+    load(): void;
+
+    /**
+     * Writes the queue to disk. This is called after every change to the queue.
+     */
+    save(): void;
+
+    /**
+     * Accessor method: get all unfinished jobs.
+     * @returns All unfinished {@link CraftingJob}s, in the order they were queued.
+     */
+    getJobs(): CraftingJob[];
+
+    /**
+     * Creates a job from a crafting plan, adding it to the end of the queue.
+     * Each step depends on the earlier steps producing any of its ingredients, forming a dependency graph.
+     * The items used by the plan are reserved, up to the amount available.
+     * @param name The name of the item being crafted, or of the order for jobs crafting several items.
+     * @param count The amount of the item being crafted, or the total amount of the items ordered.
+     * @param recipeStack The recipes to perform, as given by {@link Data.gatherIngredients}.
+     * @param itemsUsed A map of item names to the amount used, as given by {@link Data.gatherIngredients}.
+     * @param order The items to deliver once finished, for jobs crafting several items.
+     * @returns The new job.
+     */
+    add(name: string, count: number, recipeStack: CraftingStep[], itemsUsed: LuaMap<string, number>, order?: SlotDetail[]): CraftingJob;
+
+    /**
+     * Removes a job from the queue, such as when it has completed or is cancelled, releasing all items it reserved.
+     * @param job The job to remove.
+     */
+    remove(job: CraftingJob): void;
+
+    /**
+     * Reserves an amount of an item for a job, in addition to any reserved so far.
+     * @param job The job to reserve the item for.
+     * @param name The name of the item to reserve.
+     * @param count The amount to reserve.
+     */
+    reserve(job: CraftingJob, name: string, count: number): void;
+
+    /**
+     * Releases an amount of an item reserved by a job, such as when it is submitted to a recipe.
+     * No more than the amount reserved by the job is released.
+     * @param job The job to release the item from.
+     * @param name The name of the item to release.
+     * @param count The amount to release.
+     */
+    release(job: CraftingJob, name: string, count: number): void;
+
+    /**
+     * Records the state of a step within a queued job.
+     * @param step The step to update.
+     * @param state The new state of the step.
+     */
+    setStepState(step: CraftingJobStep, state: CraftingStepState): void;
+
+    /**
+     * Records an amount of an item collected by a step, in addition to any collected so far.
+     * @param step The step that produced the item.
+     * @param name The name of the item collected.
+     * @param count The amount collected.
+     */
+    addCollected(step: CraftingJobStep, name: string, count: number): void;
+
+    /**
+     * Records a number of recipes submitted by a step split into batches, in addition to any submitted so far.
+     * @param step The step that was submitted.
+     * @param count The number of recipes submitted.
+     */
+    addSubmitted(step: CraftingJobStep, count: number): void;
+
+    /**
+     * Pauses or unpauses a job. Paused jobs are not resumed when CASTLR starts.
+     * @param job The job to update.
+     * @param paused Whether the job should be paused.
+     */
+    setPaused(job: CraftingJob, paused: boolean): void;
+
+    /**
+     * Gets the steps of a job in the given state.
+     * @param job The job to query.
+     * @param state The state to filter by.
+     * @returns The matching steps, in the order they are performed.
+     */
+    getStepsInState(job: CraftingJob, state: CraftingStepState): CraftingJobStep[];
+
+    /**
+     * Determines whether a step can be started: it is pending, and every step it depends on has been collected.
+     * @param job The job containing the step.
+     * @param step The step to check.
+     * @returns Whether the step is ready.
+     */
+    isStepReady(job: CraftingJob, step: CraftingJobStep): boolean;
+}
+
+export class JobQueue {
+    _path: string;
+    _jobs: CraftingJob[];
+    _storage: Storage;
+
+    constructor(path: string, storage: Storage) {
+        this._path = path;
+        this._storage = storage;
+        this.load();
+    }
+
+    load() {
+        for (const job of this._jobs ?? [])
+            for (const name in job.reserved ?? {}) this._storage.release(name, job.reserved[name]);
+        this._jobs = [];
+        if (!fs.exists(this._path)) return;
+        const jobs: CraftingJob[] = textutils.unserialiseJSON(readFile(this._path));
+        if (jobs !== undefined) this._jobs = jobs;
+        for (const job of this._jobs)
+            for (const name in job.reserved ?? {}) this._storage.reserve(name, job.reserved[name]);
+    }
+
+    save() {
+        writeFile(this._path, textutils.serialiseJSON(this._jobs));
+    }
+
+    getJobs() {
+        return this._jobs;
+    }
+
+    add(name: string, count: number, recipeStack: CraftingStep[], itemsUsed: LuaMap<string, number>, order?: SlotDetail[]) {
+        let id = 1;
+        for (const job of this._jobs)
+            id = math.max(id, job.id + 1);
+        // the recipe stack is traversed from the end, steps are stored in the order they are performed
+        const steps: CraftingJobStep[] = [];
+        for (let i = recipeStack.length - 1; i >= 0; i--) {
+            const recipe = recipeStack[i];
+            const dependsOn: number[] = [];
+            for (const j of $range(0, steps.length - 1)) {
+                const outputNames = [steps[j].recipe.output.name];
+                for (const byproduct of steps[j].recipe.byproducts ?? []) outputNames.push(byproduct.name);
+                for (const item of [...recipe.input, ...(recipe.fuel ?? [])])
+                    // an ingredient of any variant can be supplied by a specific variant, and the reverse
+                    if (outputNames.some(outputName => itemMatches(outputName, item.name) || itemMatches(item.name, outputName)) && !dependsOn.includes(j))
+                        dependsOn.push(j);
+            }
+            steps.push({ recipe, state: "pending", dependsOn });
+        }
+        const job: CraftingJob = { id, name, count, paused: false, steps, reserved: {}, order };
+        for (const [itemName, usedCount] of itemsUsed) {
+            const reservedCount = math.min(usedCount, this._storage.getTotalItemCount(itemName));
+            if (reservedCount > 0) {
+                job.reserved[itemName] = reservedCount;
+                this._storage.reserve(itemName, reservedCount);
+            }
+        }
+        this._jobs.push(job);
+        this.save();
+        return job;
+    }
+
+    remove(job: CraftingJob) {
+        const index = this._jobs.indexOf(job);
+        if (index !== -1) this._jobs.splice(index, 1);
+        for (const name in job.reserved ?? {}) this._storage.release(name, job.reserved[name]);
+        job.reserved = {};
+        this.save();
+    }
+
+    reserve(job: CraftingJob, name: string, count: number) {
+        if (count <= 0) return;
+        job.reserved = job.reserved ?? {};
+        job.reserved[name] = (job.reserved[name] ?? 0) + count;
+        this._storage.reserve(name, count);
+        this.save();
+    }
+
+    release(job: CraftingJob, name: string, count: number) {
+        const releasedCount = math.min(count, job.reserved?.[name] ?? 0);
+        if (releasedCount <= 0) return;
+        const remaining = job.reserved[name] - releasedCount;
+        job.reserved[name] = remaining > 0 ? remaining : undefined;
+        this._storage.release(name, releasedCount);
+        this.save();
+    }
+
+    setStepState(step: CraftingJobStep, state: CraftingStepState) {
+        step.state = state;
+        this.save();
+    }
+
+    addCollected(step: CraftingJobStep, name: string, count: number) {
+        step.collected = step.collected ?? {};
+        step.collected[name] = (step.collected[name] ?? 0) + count;
+        this.save();
+    }
+
+    addSubmitted(step: CraftingJobStep, count: number) {
+        step.submitted = (step.submitted ?? 0) + count;
+        this.save();
+    }
+
+    setPaused(job: CraftingJob, paused: boolean) {
+        job.paused = paused;
+        this.save();
+    }
+
+    getStepsInState(job: CraftingJob, state: CraftingStepState) {
+        const matchingSteps: CraftingJobStep[] = [];
+        for (const step of job.steps)
+            if (step.state === state) matchingSteps.push(step);
+        return matchingSteps;
+    }
+
+    isStepReady(job: CraftingJob, step: CraftingJobStep) {
+        if (step.state !== "pending") return false;
+        for (const index of step.dependsOn)
+            if (job.steps[index].state !== "collected") return false;
+        return true;
+    }
+}
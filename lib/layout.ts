@@ -0,0 +1,88 @@
+import {
+    readFile,
+    splitString,
+    endsWith,
+    getAvailablePath,
+    namespaceValidator
+} from "./utils";
+
+/**
+ * Get the path a recipe type is saved at, such as ./types/minecraft/crafting.json for "minecraft:crafting".
+ * The namespace is kept as a directory, so types sharing a path in different namespaces do not overwrite each other.
+ * @param typeID The namespaced recipe type ID.
+ * @returns The path of the type's JSON.
+ */
+export const getTypePath = (typeID: RecipeTypeIdentifier) => {
+    const [namespace, path] = splitString(typeID, ":");
+    return fs.combine("./types/", namespace, `${path}.json`);
+}
+/**
+ * Get the directory the recipes of a recipe type are saved in, such as ./recipes/minecraft/crafting/ for "minecraft:crafting".
+ * @param typeID The namespaced recipe type ID.
+ * @returns The path of the type's recipe directory.
+ */
+export const getRecipeDirectory = (typeID: RecipeTypeIdentifier) => {
+    const [namespace, path] = splitString(typeID, ":");
+    return fs.combine("./recipes/", namespace, path);
+}
+/**
+ * Get an unused path to save a recipe at, within the directory of its type and the namespace of its output.
+ * For example, ./recipes/minecraft/crafting/minecraft/stick.json, with alternative recipes given a numeric suffix.
+ * @param typeID The namespaced recipe type ID.
+ * @param outputName The namespaced item ID of the recipe's output.
+ * @returns The path to save the recipe at.
+ */
+export const getAvailableRecipePath = (typeID: RecipeTypeIdentifier, outputName: string) => {
+    const [namespace, path] = splitString(outputName, ":");
+    return getAvailablePath(fs.combine(getRecipeDirectory(typeID), namespace), path);
+}
+/**
+ * Get the directory the recipes of a recipe type were saved in by earlier versions, such as ./recipes/crafting/.
+ * This layout is only used by types saved directly within ./types/.
+ * @param typeID The namespaced recipe type ID.
+ * @returns The path of the type's recipe directory.
+ */
+export const getLegacyRecipeDirectory = (typeID: RecipeTypeIdentifier) => fs.combine("./recipes/", splitString(typeID, ":")[1]);
+/**
+ * Deletes a directory if it is empty, after deleting any empty directories within it.
+ * @param directory The directory to prune.
+ */
+export const pruneDirectory = (directory: string) => {
+    if (!fs.isDir(directory)) return;
+    for (const file of fs.list(directory)) pruneDirectory(fs.combine(directory, file));
+    if (fs.list(directory).length === 0) fs.delete(directory);
+}
+/**
+ * Moves recipe types and recipes saved in the layout of earlier versions into the namespaced layout.
+ * Types saved directly within ./types/ are moved to {@link getTypePath}, and their recipes to {@link getAvailableRecipePath}.
+ * Files that cannot be read, or whose new path is already in use, are left in place, to be loaded and reported by {@link Data}.
+ * @returns The number of recipe types moved.
+ */
+export const migrateLayout = () => {
+    let migratedCount = 0;
+    for (const file of fs.list("./types/")) {
+        const path = fs.combine("./types/", file);
+        if (fs.isDir(path) || !endsWith(file, ".json")) continue;
+        const recipeType: RecipeType = textutils.unserialiseJSON(readFile(path));
+        if (recipeType === undefined || typeof recipeType.typeID !== "string" || !namespaceValidator(recipeType.typeID)) continue;
+        const newPath = getTypePath(recipeType.typeID);
+        if (fs.exists(newPath)) continue;
+        const legacyDirectory = getLegacyRecipeDirectory(recipeType.typeID);
+        if (fs.isDir(legacyDirectory)) {
+            for (const recipeFile of fs.list(legacyDirectory)) {
+                const recipePath = fs.combine(legacyDirectory, recipeFile);
+                // directories may belong to the namespaced layout, where a namespace matches the type's path
+                if (fs.isDir(recipePath) || !endsWith(recipeFile, ".json")) continue;
+                const recipe: Recipe = textutils.unserialiseJSON(readFile(recipePath));
+                // recipes that cannot be read keep their file name, and are reported when loading
+                if (recipe === undefined || typeof recipe.output !== "object" || typeof recipe.output.name !== "string" || !namespaceValidator(recipe.output.name))
+                    fs.move(recipePath, getAvailablePath(getRecipeDirectory(recipeType.typeID), string.sub(recipeFile, 1, -6)));
+                else fs.move(recipePath, getAvailableRecipePath(recipeType.typeID, recipe.output.name));
+            }
+            pruneDirectory(legacyDirectory);
+        }
+        fs.move(path, newPath);
+        migratedCount++;
+    }
+    return migratedCount;
+}
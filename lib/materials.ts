@@ -0,0 +1,77 @@
+import { splitString } from "./utils";
+import { Storage } from "./storage";
+
+/**
+ * Splits a row of a material list into its cells, without surrounding whitespace or quotes.
+ * Text exports separate cells with "|", while CSV exports separate them with ",".
+ * @param line The row to split.
+ * @returns The non-empty cells of the row.
+ */
+const splitRow = (line: string) => {
+    const separator = string.find(line, "|", 1, true)[0] !== undefined ? "|" : ",";
+    const cells: string[] = [];
+    for (const cell of splitString(line, separator)) {
+        const [trimmed] = string.match(cell, '^%s*"?(.-)"?%s*$');
+        if (trimmed !== undefined && trimmed !== "") cells.push(trimmed);
+    }
+    return cells;
+}
+
+/**
+ * Reads a material list exported by Litematica, in either its text or CSV format.
+ * The amount of each item is read from the "Missing" column where present, otherwise from the "Total" column.
+ * @param text The contents of the exported file.
+ * @returns The display name of each item alongside its amount, excluding items with none required.
+ */
+export const parseMaterialList = (text: string): SlotDetail[] => {
+    const materials: SlotDetail[] = [];
+    let countColumn: number;
+    for (const [line] of string.gmatch(text, "[^\r\n]+")) {
+        const cells = splitRow(line);
+        // the header may be repeated, such as at the end of text exports
+        if (cells[0] === "Item") {
+            const missingColumn = cells.indexOf("Missing");
+            countColumn = missingColumn !== -1 ? missingColumn : cells.indexOf("Total");
+            continue;
+        }
+        if (countColumn === undefined || countColumn === -1) continue;
+        const count = tonumber(cells[countColumn]);
+        if (count === undefined || count <= 0) continue;
+        const existingMaterial = materials.find(material => material.name === cells[0]);
+        if (existingMaterial !== undefined) existingMaterial.count += count;
+        else materials.push({ name: cells[0], count });
+    }
+    return materials;
+}
+
+/**
+ * Estimates the display name of an item from its name, such as "Oak Planks" for "minecraft:oak_planks".
+ * @param name The namespaced item name.
+ * @returns The estimated display name.
+ */
+export const guessDisplayName = (name: string) => {
+    const words: string[] = [];
+    for (const word of splitString(splitString(name, ":")[1] ?? name, "_"))
+        words.push(string.upper(string.sub(word, 1, 1)) + string.sub(word, 2));
+    return table.concat(words, " ");
+}
+
+/**
+ * Finds the item with a display name, as given in a material list.
+ * Display names are first estimated from item names, before being read from storage for stored items.
+ * @param displayName The display name to search for, compared without case.
+ * @param candidates The names of the items to search, such as those stored or craftable.
+ * @param storage The storage to read display names from.
+ * @returns The matching item name, or undefined if none match.
+ */
+export const findItemByDisplayName = (displayName: string, candidates: string[], storage: Storage) => {
+    const target = string.lower(displayName);
+    for (const name of candidates)
+        if (string.lower(guessDisplayName(name)) === target) return name;
+    // reading display names requires a peripheral call per item, so is only done where estimates fail
+    for (const name of candidates) {
+        const storedDisplayName = storage.getDisplayName(name);
+        if (storedDisplayName !== undefined && string.lower(storedDisplayName) === target) return name;
+    }
+    return undefined;
+}
@@ -0,0 +1,114 @@
+import { namespaceValidator } from "./utils";
+
+// a problem found with a single field of a definition, such as "input[2].count"
+type SchemaIssue = { field: string, reason: string };
+
+/**
+ * @param value The value to check.
+ * @returns Whether the value is a table, as given by `textutils.unserialiseJSON` for JSON objects and arrays.
+ */
+const isTable = (value: unknown) => typeof value === "object" && value !== undefined;
+/**
+ * @param value The value to check.
+ * @param min The smallest value allowed.
+ * @returns Whether the value is a whole number of at least the given minimum.
+ */
+const isInteger = (value: unknown, min: number) => typeof value === "number" && value >= min && math.floor(value) === value;
+/**
+ * @param value The value to check.
+ * @returns Whether the value is a namespaced item ID, such as "minecraft:stone".
+ */
+const isItemID = (value: unknown) => typeof value === "string" && namespaceValidator(value);
+
+/**
+ * Checks an item and amount, such as a recipe's output.
+ * @param item The item to check.
+ * @param field The name of the field holding the item, prefixed to each issue.
+ * @param issues The issues found so far, to add to.
+ * @param allowTags Whether the item can be a tag prefixed with "#", as with recipe inputs.
+ * @returns Whether the item is a table, such that its other fields can be checked.
+ */
+const checkSlotDetail = (item: unknown, field: string, issues: SchemaIssue[], allowTags = false) => {
+    if (!isTable(item)) {
+        issues.push({ field, reason: "Must be an object with a name and count." });
+        return false;
+    }
+    const { name, count } = item as SlotDetail;
+    const itemName = allowTags && typeof name === "string" && string.sub(name, 1, 1) === "#" ? string.sub(name, 2) : name;
+    if (!isItemID(itemName))
+        issues.push({ field: `${field}.name`, reason: allowTags ? "Must be a namespaced item ID, or a tag prefixed with #." : "Must be a namespaced item ID." });
+    if (!isInteger(count, 1)) issues.push({ field: `${field}.count`, reason: "Must be a whole number, of at least 1." });
+    return true;
+}
+
+/**
+ * Checks the fields of a recipe type read from disk, without checking it against other definitions.
+ * @param recipeType The unvalidated recipe type.
+ * @returns The issues found with each field, which is empty if the recipe type is valid.
+ */
+export const validateRecipeType = (recipeType: unknown): SchemaIssue[] => {
+    const issues: SchemaIssue[] = [];
+    if (!isTable(recipeType)) return [{ field: "", reason: "Must be an object." }];
+    const { typeID, input, output, stream, timeout, batch, slots, fuel } = recipeType as RecipeType;
+    if (!isItemID(typeID)) issues.push({ field: "typeID", reason: "Must be a namespaced ID." });
+    // a blank input marks a type that is only collected from, such as a farm
+    if (typeof input !== "string") issues.push({ field: "input", reason: "Must be an inventory ID, or blank." });
+    if (typeof output !== "string" || output === "") issues.push({ field: "output", reason: "Must be an inventory ID." });
+    if (stream !== undefined && typeof stream !== "boolean") issues.push({ field: "stream", reason: "Must be true or false." });
+    // a timeout of 0 disables stall detection for the type
+    if (timeout !== undefined && !(typeof timeout === "number" && timeout >= 0)) issues.push({ field: "timeout", reason: "Must be a number of seconds, of at least 0." });
+    if (batch !== undefined && !isInteger(batch, 1)) issues.push({ field: "batch", reason: "Must be a whole number, of at least 1." });
+    if (slots !== undefined) {
+        if (!isTable(slots)) issues.push({ field: "slots", reason: "Must be an object of role names to slot numbers." });
+        else for (const role in slots)
+            if (!isInteger(slots[role], 1)) issues.push({ field: `slots.${role}`, reason: "Must be a slot number, of at least 1." });
+    }
+    if (fuel !== undefined) {
+        if (!isTable(fuel)) issues.push({ field: "fuel", reason: "Must be an object with a list of items." });
+        else {
+            if (!isTable(fuel.items) || fuel.items.length === 0) issues.push({ field: "fuel.items", reason: "Must be a list of at least one fuel." });
+            else for (const i of $range(1, fuel.items.length)) {
+                const fuelItem = fuel.items[i - 1];
+                if (!isTable(fuelItem)) issues.push({ field: `fuel.items[${i}]`, reason: "Must be an object with a name and value." });
+                else {
+                    if (!isItemID(fuelItem.name)) issues.push({ field: `fuel.items[${i}].name`, reason: "Must be a namespaced item ID." });
+                    if (!(typeof fuelItem.value === "number" && fuelItem.value > 0)) issues.push({ field: `fuel.items[${i}].value`, reason: "Must be a number of recipes, above 0." });
+                }
+            }
+            if (fuel.slot !== undefined && !isInteger(fuel.slot, 1) && typeof fuel.slot !== "string") issues.push({ field: "fuel.slot", reason: "Must be a slot number, or a role." });
+            if (fuel.input !== undefined && typeof fuel.input !== "string") issues.push({ field: "fuel.input", reason: "Must be an inventory ID." });
+        }
+    }
+    return issues;
+}
+
+/**
+ * Checks the fields of a recipe read from disk, without checking it against its recipe type or other definitions.
+ * @param recipe The unvalidated recipe.
+ * @returns The issues found with each field, which is empty if the recipe is valid.
+ */
+export const validateRecipe = (recipe: unknown): SchemaIssue[] => {
+    const issues: SchemaIssue[] = [];
+    if (!isTable(recipe)) return [{ field: "", reason: "Must be an object." }];
+    const { typeID, input, output, byproducts, priority } = recipe as Recipe;
+    if (!isItemID(typeID)) issues.push({ field: "typeID", reason: "Must be a namespaced ID." });
+    if (!isTable(input) || input.length === 0) issues.push({ field: "input", reason: "Must be a list of at least one item." });
+    else for (const i of $range(1, input.length)) {
+        const item = input[i - 1];
+        if (!checkSlotDetail(item, `input[${i}]`, issues, true)) continue;
+        if (item.catalyst !== undefined && typeof item.catalyst !== "boolean") issues.push({ field: `input[${i}].catalyst`, reason: "Must be true or false." });
+        if (item.slot !== undefined && !isInteger(item.slot, 1) && typeof item.slot !== "string") issues.push({ field: `input[${i}].slot`, reason: "Must be a slot number, or a role." });
+    }
+    checkSlotDetail(output, "output", issues);
+    if (byproducts !== undefined) {
+        if (!isTable(byproducts)) issues.push({ field: "byproducts", reason: "Must be a list of items." });
+        else for (const i of $range(1, byproducts.length)) {
+            const byproduct = byproducts[i - 1];
+            if (!checkSlotDetail(byproduct, `byproducts[${i}]`, issues)) continue;
+            if (byproduct.chance !== undefined && !(typeof byproduct.chance === "number" && byproduct.chance > 0 && byproduct.chance <= 1))
+                issues.push({ field: `byproducts[${i}].chance`, reason: "Must be a number above 0, and at most 1." });
+        }
+    }
+    if (priority !== undefined && !isInteger(priority, 0)) issues.push({ field: "priority", reason: "Must be a whole number, of at least 0." });
+    return issues;
+}
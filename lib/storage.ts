@@ -1,8 +1,26 @@
-import { Inventory } from "./inventory";
+import { Inventory, splitItemKey, itemMatches, getItemKey } from "./inventory";
+import {
+    readFile,
+    writeFile
+} from "./utils";
+
+/**
+ * Copies the names in a set, so that they can be iterated over while inventories are added or removed.
+ * Lua does not allow keys to be added to a table while it is traversed, which may happen wherever a traversal yields, such as for a peripheral call.
+ * @param names The set of inventory names to copy.
+ * @returns The names in the set.
+ */
+const snapshot = (names: LuaSet<string>) => {
+    const copy: string[] = [];
+    for (const name of names) copy.push(name);
+    return copy;
+}
 
 /**
  * Controller for groups of inventories, with utility methods to view them as a group.
  * Items can be moved between inventories using the utility methods provided.
+ * Inventories loaded from the persisted index are verified before items are moved to or from them, see {@link Inventory.verify}.
+ * Inventories can be added and removed individually as peripherals are connected and disconnected.
  */
 export interface Storage {
     /**
@@ -16,42 +34,141 @@ export interface Storage {
      * This allows for access by type, using {@link getStoragesByType}.
      */
     _storagesByType: { [index in StorageType]: LuaSet<string> };
+
+    /**
+     * A map of item names to the amount reserved by queued crafting jobs.
+     * Reserved items remain in storage, but are not counted as available by {@link getTotalItemCount}.
+     */
+    _reserved: LuaMap<string, number>;
+
+    /**
+     * A map of item names to their tags, read once per item using {@link Inventory.getItemDetail}.
+     */
+    _itemTags: LuaMap<string, LuaSet<string>>;
+
+    /**
+     * A map of item names to their display names, read alongside their tags.
+     */
+    _displayNames: LuaMap<string, string>;
+
+    /**
+     * The path of the file the contents of each inventory are persisted to, if any.
+     */
+    _indexPath?: string;
+
     /**
      * Creates a Storage instance, initalising fields using {@link init}.
      * Requires storage type sets to allow for filtering.
      * Wraps all connected inventory peripherals using {@link Inventory}.
      * @param storagesByType The storage type sets.
      * @param peripherals A table of peripherals as returned by `peripheral.find("inventory")`.
+     * @param indexPath The path of the file to persist the contents of each inventory to, see {@link saveIndex}.
      */
-    constructor(storagesByType: { [index in StorageType]: LuaSet<string> }, peripherals?: LuaMultiReturn<InventoryPeripheral[]>): void;
+    constructor(storagesByType: { [index in StorageType]: LuaSet<string> }, peripherals?: LuaMultiReturn<InventoryPeripheral[]>, indexPath?: string): void;
 
     /**
      * Wraps all connected inventory peripherals using {@link Inventory}.
      * Alternatively, if peripherals is passed, it is used as the list of inventory peripherals to wrap.
+     * Inventories found in the persisted index are created from it without calling the peripheral, and are verified when first used.
      * @param peripherals A table of peripherals as returned by `peripheral.find("inventory")`.
      */
     init(peripherals?: LuaMultiReturn<InventoryPeripheral[]>): void;
 
     /**
-     * Iterates through each connected inventory, building a map of item name to total counts.
-     * @returns A map of item names to their total counts.
+     * Writes the contents of each inventory to disk, to be loaded by {@link init} when CASTLR next starts.
+     * Does nothing if no index path was given.
+     */
+    saveIndex(): void;
+
+    /**
+     * Synchronises every inventory yet to be verified since being loaded from the persisted index, see {@link Inventory.verify}.
+     */
+    verifyAll(): void;
+
+    /**
+     * Synchronises the inventory most in need of it, finding any drift in its cached contents, see {@link Inventory.resync}.
+     * Only inventories counted as stored are considered, see {@link getStoredItemCount}.
+     * The inventory with the most pushes since it was last synchronised is chosen, then the one synchronised longest ago.
+     * @returns The name of the inventory synchronised, or undefined if there are none.
+     * @returns Its drift, as given by {@link Inventory.resync}.
+     * @returns When it was previously synchronised, as given by {@link Inventory.getLastVerified}, such that drift can be dated.
+     */
+    resyncNext(): LuaMultiReturn<[string | undefined, LuaMap<string, number> | undefined, number | undefined]>;
+
+    /**
+     * Iterates through each connected inventory, building a map of item keys to total counts.
+     * Each variant of an item with NBT, such as a potion, is counted separately, see {@link getItemKey}.
+     * @returns A map of item keys to their total counts.
      */
     getAllItems(): LuaMap<string, number>;
 
     /**
-     * Gets the total amount of an item stored across all connected inventories by iterating through them.
-     * @param item The name of the item to get the count of.
-     * @returns The amount of that item that are stored.
+     * Gets the amount of an item available for use, excluding the amount reserved by queued crafting jobs.
+     * As reservations of an item name may be taken from any of its variants, a variant is never more available than the item name.
+     * @param item The name of the item to get the count of, matching any variant unless an item key is given.
+     * @returns The amount of that item that are stored and not reserved.
      */
     getTotalItemCount(item: string): number;
 
     /**
-     * Iterates through all connected inventories to collate all unique item names. Additional names can be inserted.
+     * Gets the total amount of an item stored across all connected inventories by iterating through them, including reserved items.
+     * @param item The name of the item to get the count of, matching any variant unless an item key is given.
+     * @returns The amount of that item that are stored.
+     */
+    getStoredItemCount(item: string): number;
+
+    /**
+     * @param item The name of the item to get the reserved count of.
+     * @returns The amount of that item reserved by queued crafting jobs.
+     */
+    getReservedCount(item: string): number;
+
+    /**
+     * Adds to the amount of an item reserved, such that it is no longer reported as available.
+     * @param item The name of the item to reserve.
+     * @param count The amount to reserve.
+     */
+    reserve(item: string, count: number): void;
+
+    /**
+     * Removes from the amount of an item reserved, such as when it is submitted to a recipe.
+     * @param item The name of the item to release.
+     * @param count The amount to release.
+     */
+    release(item: string, count: number): void;
+
+    /**
+     * Iterates through all connected inventories to collate all unique item keys. Additional names can be inserted.
+     * The item name of each variant is also included, for items that match any variant.
      * @param insertedValues Values to insert into the ordered item names, for autocompletion of craftable items.
      * @returns An ordered list of item names.
      */
     getItemNames(insertedValues?: string[]): string[];
 
+    /**
+     * Gets the tags of an item, such as "minecraft:planks" for oak planks.
+     * Tags are read from the first slot found containing the item, and cached for later calls.
+     * @param name The name of the item to get the tags of, or an item key to read them from that variant.
+     * @returns A set of tag names, which is empty if the item is not stored.
+     */
+    getItemTags(name: string): LuaSet<string>;
+
+    /**
+     * Gets the display name of an item, such as "Oak Planks" for oak planks.
+     * This is read alongside the item's tags, see {@link getItemTags}.
+     * Enchantments are listed after the display name, so variants such as enchanted books can be told apart.
+     * @param name The name of the item to get the display name of.
+     * @returns The display name, or undefined if the item is not stored.
+     */
+    getDisplayName(name: string): string | undefined;
+
+    /**
+     * Finds the items in connected inventories with a tag.
+     * @param tag The tag to search for, without the leading "#".
+     * @returns The names of the matching items, each matching any variant.
+     */
+    getItemsWithTag(tag: string): string[];
+
     /**
      * Iterates through all connected inventories to collate all unique peripheral names.
      * @returns An ordered list of inventory peripheral names.
@@ -68,11 +185,43 @@ export interface Storage {
 
     /**
      * Access a single inventory peripheral by name, without wrapping it again.
-     * If the inventory is not already wrapped, the instance will re-initalise to prevent issues when the chunks the system resides in are reloaded.
+     * If the inventory is not already wrapped, it is wrapped using {@link addInventory}, such as when the chunks the system resides in are reloaded.
      * @param name The name of the inventory peripheral to wrap.
-     * @returns The underlying peripheral.
+     * @returns The underlying peripheral, or undefined if it is not connected.
+     */
+    getInventory(name: string): Inventory | undefined;
+
+    /**
+     * Gets an inventory, as with {@link getInventory}, first checking that its peripheral is still connected.
+     * Inventories found to be disconnected are removed using {@link removeInventory}, such that items are not moved to or from them.
+     * @param name The name of the inventory peripheral.
+     * @returns The inventory, or undefined if it is not connected.
      */
-    getInventory(name: string): Inventory;
+    _getConnectedInventory(name: string): Inventory | undefined;
+
+    /**
+     * Wraps a single inventory peripheral, such as one connected after CASTLR started.
+     * Inventories not used by a recipe type are added to the storage type sets as storage, as when initialising.
+     * @param name The name of the inventory peripheral.
+     * @returns The new inventory, or undefined if the peripheral is not a connected inventory.
+     */
+    addInventory(name: string): Inventory | undefined;
+
+    /**
+     * Removes a single inventory, such as one disconnected or broken, so that items are no longer moved to or from it.
+     * Its items are no longer counted as stored.
+     * @param name The name of the inventory peripheral.
+     * @returns Whether the inventory had been wrapped.
+     */
+    removeInventory(name: string): boolean;
+
+    /**
+     * Replaces the inventories used by recipe types, then classifies every wrapped inventory again.
+     * This ensures a machine's inventory is no longer treated as storage once a recipe type using it is added.
+     * @param inputs The inventories to treat as inputs, which are neither stored in nor indexed.
+     * @param outputs The inventories to treat as outputs, which are indexed but not stored in.
+     */
+    setRecipeInventories(inputs: LuaSet<string>, outputs: LuaSet<string>): void;
 
     /**
      * Gets the total number of free slots and all slots.
@@ -90,7 +239,7 @@ export interface Storage {
      * @param limit The maximum amount of the item to move.
      * @returns Whether the limit was reached successfully.
      */
-    moveItemFromOne(from: string, to: LuaSet<string> | [string], name: string, limit: number): boolean;
+    moveItemFromOne(from: string, to: LuaSet<string>, name: string, limit: number): boolean;
 
     /**
      * This function will move items from many sources to a single desination.
@@ -99,9 +248,10 @@ export interface Storage {
      * @param to The destination inventory peripheral.
      * @param name The name of the item to move.
      * @param limit The maximum amount of the item to move.
+     * @param toSlot The slot of the destination to move items to, if only a single slot may be used.
      * @returns The amount of items moved.
      */
-    moveItemFromMany(from: LuaSet<string>, to: string, name: string, limit: number): number;
+    moveItemFromMany(from: LuaSet<string>, to: string, name: string, limit: number, toSlot?: number): number;
 
     /**
      * This function will move items from a single source to many desintations.
@@ -115,9 +265,17 @@ export interface Storage {
 export class Storage {
     _inventories: LuaMap<string, Inventory>;
     _storagesByType: { [index in StorageType]: LuaSet<string> };
+    _reserved: LuaMap<string, number>;
+    _itemTags: LuaMap<string, LuaSet<string>>;
+    _displayNames: LuaMap<string, string>;
+    _indexPath?: string;
 
-    constructor(storagesByType: { [index in StorageType]: LuaSet<string> }, peripherals?: LuaMultiReturn<InventoryPeripheral[]>) {
+    constructor(storagesByType: { [index in StorageType]: LuaSet<string> }, peripherals?: LuaMultiReturn<InventoryPeripheral[]>, indexPath?: string) {
         this._storagesByType = storagesByType;
+        this._indexPath = indexPath;
+        this._reserved = new LuaMap();
+        this._itemTags = new LuaMap();
+        this._displayNames = new LuaMap();
         this.init(peripherals);
     }
 
@@ -125,9 +283,16 @@ export class Storage {
         // get inventory data
         this._inventories = new LuaMap();
         peripherals = peripherals ?? peripheral.find("inventory") as LuaMultiReturn<InventoryPeripheral[]>;
+        let index: { [name: string]: InventoryIndex } = {};
+        if (this._indexPath !== undefined && fs.exists(this._indexPath))
+            index = textutils.unserialiseJSON(readFile(this._indexPath)) ?? {};
         let newInvFuncs = [];
         for (const inv of peripherals) {
             const name = peripheral.getName(inv);
+            if (index[name] !== undefined) {
+                this._inventories.set(name, new Inventory(name, undefined, index[name]));
+                continue;
+            }
             newInvFuncs.push(() => {
                 this._inventories.set(name, new Inventory(name));
             });
@@ -139,6 +304,45 @@ export class Storage {
         parallel.waitForAll(...newInvFuncs);
     }
 
+    saveIndex() {
+        if (this._indexPath === undefined) return;
+        const index: { [name: string]: InventoryIndex } = {};
+        for (const [name, inv] of this._inventories) index[name] = inv.toIndex();
+        writeFile(this._indexPath, textutils.serialiseJSON(index));
+    }
+
+    verifyAll() {
+        let verifyFuncs = [];
+        for (const name of this.getInventoryNames()) {
+            const inv = this._inventories.get(name);
+            // the inventory may have been removed while verifying others
+            if (inv === undefined || inv.isVerified()) continue;
+            verifyFuncs.push(() => inv.verify());
+            if (verifyFuncs.length === 64) {
+                parallel.waitForAll(...verifyFuncs);
+                verifyFuncs = [];
+            }
+        }
+        parallel.waitForAll(...verifyFuncs);
+    }
+
+    resyncNext() {
+        let nextName: string;
+        let nextInv: Inventory;
+        for (const name of snapshot(this.getStoragesByType(StorageType.NotInput))) {
+            const inv = this._inventories.get(name);
+            if (inv === undefined) continue;
+            if (nextInv === undefined || inv.getTraffic() > nextInv.getTraffic()
+                || (inv.getTraffic() === nextInv.getTraffic() && (inv.getLastVerified() ?? 0) < (nextInv.getLastVerified() ?? 0))) {
+                nextName = name;
+                nextInv = inv;
+            }
+        }
+        if (nextInv === undefined) return $multi(undefined, undefined, undefined);
+        const previousVerified = nextInv.getLastVerified();
+        return $multi(nextName, nextInv.resync(), previousVerified);
+    }
+
     getAllItems(): LuaMap<string, number> {
         const itemMap = new LuaMap<string, number>();
         for (const [, inv] of this._inventories)
@@ -150,21 +354,86 @@ export class Storage {
     }
 
     getTotalItemCount(item: string) {
+        const [name, nbt] = splitItemKey(item);
+        let reservedCount = 0;
+        for (const [reservedItem, count] of this._reserved)
+            if (itemMatches(reservedItem, name)) reservedCount += count;
+        let available = this.getStoredItemCount(name) - reservedCount;
+        if (nbt !== undefined) available = math.min(available, this.getStoredItemCount(item) - this.getReservedCount(item));
+        return math.max(0, available);
+    }
+
+    getStoredItemCount(item: string) {
         let total = 0;
         for (const name of this.getStoragesByType(StorageType.NotInput))
             total += this.getInventory(name).getItemCount(item);
         return total;
     }
 
+    getReservedCount(item: string) {
+        return this._reserved.get(item) ?? 0;
+    }
+
+    reserve(item: string, count: number) {
+        this._reserved.set(item, this.getReservedCount(item) + count);
+    }
+
+    release(item: string, count: number) {
+        const remaining = this.getReservedCount(item) - count;
+        this._reserved.set(item, remaining > 0 ? remaining : undefined);
+    }
+
     getItemNames(insertedValues?: string[]): string[] {
         const uniqueNames: string[] = [];
         if (insertedValues !== undefined) for (const value of insertedValues) uniqueNames.push(value);
         for (const [, inv] of this._inventories)
-            for (const [name] of inv.getSlots())
-                uniqueNames.push(name);
+            for (const [key] of inv.getSlots()) {
+                uniqueNames.push(key);
+                const [name, nbt] = splitItemKey(key);
+                if (nbt !== undefined) uniqueNames.push(name);
+            }
         return uniqueNames;
     }
 
+    getItemTags(name: string) {
+        const cachedTags = this._itemTags.get(name);
+        if (cachedTags !== undefined) return cachedTags;
+        const tags = new LuaSet<string>();
+        for (const invName of this.getInventoryNames()) {
+            const inv = this._inventories.get(invName);
+            if (inv === undefined) continue;
+            for (const key of inv.getMatchingKeys(name))
+                for (const [slot] of inv.getSlots().get(key)) {
+                    const detail = inv.getItemDetail(slot);
+                    // the item may have been moved since the inventory was last synchronised
+                    if (detail === undefined || !itemMatches(getItemKey(detail), name)) continue;
+                    // CC: Tweaked gives tags as a map of tag names to true, rather than the declared array
+                    const detailTags = (detail.tags ?? {}) as unknown as LuaTable<string | number, string | boolean>;
+                    for (const [key, value] of pairs(detailTags)) tags.add(typeof key === "string" ? key : value as string);
+                    this._itemTags.set(name, tags);
+                    const enchantmentNames: string[] = [];
+                    for (const enchantment of detail.enchantments ?? []) enchantmentNames.push(enchantment.displayName);
+                    this._displayNames.set(name, enchantmentNames.length > 0 ? `${detail.displayName} (${table.concat(enchantmentNames, ", ")})` : detail.displayName);
+                    return tags;
+                }
+        }
+        return tags;
+    }
+
+    getDisplayName(name: string) {
+        if (!this._displayNames.has(name)) this.getItemTags(name);
+        return this._displayNames.get(name);
+    }
+
+    getItemsWithTag(tag: string) {
+        const matchingNames: string[] = [];
+        for (const [key] of this.getAllItems()) {
+            const [name] = splitItemKey(key);
+            if (!matchingNames.includes(name) && this.getItemTags(name).has(tag)) matchingNames.push(name);
+        }
+        return matchingNames;
+    }
+
     getInventoryNames(): string[] {
         const uniqueNames: string[] = [];
         for (const [name] of this._inventories)
@@ -179,8 +448,52 @@ export class Storage {
     getInventory(name: string) {
         const maybeInventory = this._inventories.get(name);
         if (maybeInventory !== undefined) return maybeInventory;
-        this.init();
-        return this._inventories.get(name);
+        return this.addInventory(name);
+    }
+
+    _getConnectedInventory(name: string) {
+        const inv = this.getInventory(name);
+        if (inv === undefined || peripheral.isPresent(name)) return inv;
+        // the detach event may not have been handled yet, such as during a long operation
+        this.removeInventory(name);
+        return undefined;
+    }
+
+    addInventory(name: string) {
+        if (!peripheral.isPresent(name) || !peripheral.hasType(name, "inventory")) return undefined;
+        const inv = new Inventory(name);
+        this._inventories.set(name, inv);
+        if (!this._storagesByType[StorageType.Input].has(name)) {
+            this._storagesByType[StorageType.NotInput].add(name);
+            if (!this._storagesByType[StorageType.Output].has(name)) this._storagesByType[StorageType.Storage].add(name);
+        }
+        return inv;
+    }
+
+    removeInventory(name: string) {
+        if (!this._inventories.has(name)) return false;
+        this._inventories.delete(name);
+        // input and output sets are named by recipe types, so are kept for when the inventory is connected again
+        this._storagesByType[StorageType.NotInput].delete(name);
+        this._storagesByType[StorageType.Storage].delete(name);
+        return true;
+    }
+
+    setRecipeInventories(inputs: LuaSet<string>, outputs: LuaSet<string>) {
+        const storages = new LuaSet<string>();
+        const notInputs = new LuaSet<string>();
+        for (const [name] of this._inventories) {
+            if (!inputs.has(name)) {
+                notInputs.add(name);
+                if (!outputs.has(name)) storages.add(name);
+            }
+        }
+        this._storagesByType = {
+            [StorageType.Input]: inputs,
+            [StorageType.Output]: outputs,
+            [StorageType.Storage]: storages,
+            [StorageType.NotInput]: notInputs
+        };
     }
 
     getTotalCapacity() {
@@ -196,32 +509,41 @@ export class Storage {
 
     }
 
-    moveItemFromOne(from: string, to: LuaSet<string> | [string], name: string, limit: number): boolean {
-        const srcInv = this.getInventory(from);
-        const srcSlots = srcInv.getSlots().get(name);
-        if (srcSlots === undefined) return false;
-        for (const destStr of to) {
-            const destInv = this.getInventory(destStr);
-            for (const [fromSlot] of srcSlots) {
-                limit -= srcInv.pushItems(destInv, fromSlot, limit);
-                if (limit === 0) return true;
-            }
+    moveItemFromOne(from: string, to: LuaSet<string>, name: string, limit: number): boolean {
+        const srcInv = this._getConnectedInventory(from);
+        if (srcInv === undefined) return false;
+        srcInv.verify();
+        const keys = srcInv.getMatchingKeys(name);
+        if (keys.length === 0) return false;
+        for (const destStr of snapshot(to)) {
+            // disconnected destinations are skipped, moving items to the next instead
+            const destInv = this._getConnectedInventory(destStr);
+            if (destInv === undefined) continue;
+            destInv.verify();
+            for (const key of keys)
+                for (const [fromSlot] of srcInv.getSlots().get(key)) {
+                    limit -= srcInv.pushItems(destInv, fromSlot, limit);
+                    if (limit === 0) return true;
+                }
         }
         return false;
     }
 
-    moveItemFromMany(from: LuaSet<string>, to: string, name: string, limit: number): number {
-        const destInv = this.getInventory(to);
+    moveItemFromMany(from: LuaSet<string>, to: string, name: string, limit: number, toSlot?: number): number {
+        const destInv = this._getConnectedInventory(to);
+        if (destInv === undefined) return 0;
+        destInv.verify();
         const startingLimit = limit;
         // for each source inventory
-        for (const srcInvStr of from) {
-            const srcInv = this.getInventory(srcInvStr);
-            const slotCounts = srcInv.getSlots().get(name);
-            if (slotCounts !== undefined)
-                // for every slot in inventory, given it is defined
-                for (const [fromSlot] of slotCounts) {
+        for (const srcInvStr of snapshot(from)) {
+            const srcInv = this._getConnectedInventory(srcInvStr);
+            if (srcInv === undefined) continue;
+            srcInv.verify();
+            // for every variant matching the name, and every slot it is in
+            for (const key of srcInv.getMatchingKeys(name))
+                for (const [fromSlot] of srcInv.getSlots().get(key)) {
                     // move items to destination, up to limit - new limit = old limit - amount moved
-                    limit -= srcInv.pushItems(destInv, fromSlot, limit);
+                    limit -= srcInv.pushItems(destInv, fromSlot, limit, toSlot);
                     if (limit <= 0) return startingLimit;
                 }
         }
@@ -229,10 +551,14 @@ export class Storage {
     }
 
     moveOneToMany(from: string, to: LuaSet<string>) {
-        const srcInv = this.getInventory(from);
-        for (const destStr of to) {
-            // for each dest inventory
-            const destInv = this.getInventory(destStr);
+        const srcInv = this._getConnectedInventory(from);
+        if (srcInv === undefined) return;
+        srcInv.verify();
+        for (const destStr of snapshot(to)) {
+            // for each dest inventory, skipping those disconnected
+            const destInv = this._getConnectedInventory(destStr);
+            if (destInv === undefined) continue;
+            destInv.verify();
             let workComplete = true;
             for (const [fromSlot] of pairs(srcInv.list())) {
                 // if running inside loop, there are items to move
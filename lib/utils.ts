@@ -13,6 +13,17 @@ export const writeFile = (path: string, data: string) => {
     file.write(data);
     file.close();
 }
+/**
+ * Appends data to the end of a file, then closes it.
+ * @param path Path of the file to append to.
+ * @param data Data to append to the file.
+ */
+export const appendFile = (path: string, data: string) => {
+    const [file, err] = fs.open(path, "a");
+    if (err !== undefined) return;
+    file.write(data);
+    file.close();
+}
 /**
  * Reads data from a file, then closes it.
  * @param path Path of the file to read.
@@ -24,6 +35,18 @@ export const readFile = (path: string) => {
     file.close();
     return data;
 };
+/**
+ * Finds a path for a new JSON file that does not overwrite an existing one, adding a numeric suffix where needed.
+ * @param directory The directory to create the file in.
+ * @param name The name of the file, without its extension.
+ * @returns The first of `name.json`, `name_2.json`, `name_3.json`... that does not exist.
+ */
+export const getAvailablePath = (directory: string, name: string) => {
+    let path = fs.combine(directory, `${name}.json`);
+    for (let i = 2; fs.exists(path); i++)
+        path = fs.combine(directory, `${name}_${i}.json`);
+    return path;
+}
 /**
  * 
  * @param pattern The pattern a valid directory will match.
@@ -67,10 +90,11 @@ export const getInput = (prompt: string, options: InputOptions = {}) => {
 /**
  * Check with the user that the above is correct.
  * @param prompt The string representing what the user is consenting to.
+ * @param preset The answer to pre-fill, such as the current value when editing.
  * @returns If the user consented to proceeding.
  */
-export const getConsent = (prompt: string) => {
-    const options = { completeFn: stringCompletor(["N", "Y"]) };
+export const getConsent = (prompt: string, preset?: boolean) => {
+    const options = { completeFn: stringCompletor(["N", "Y"]), presetInput: preset === undefined ? undefined : preset ? "Y" : "N" };
     return string.lower(getInput(`${prompt} (Y/N): `, options)) === "y";
 }
 /**
@@ -124,11 +148,12 @@ export const stringCompletor = (possibleStrs: string[]) => {
  * @param strings The prompts to show the user for each input.
  * @param conditions An optional function to ensure the given input is valid.
  * @param completeFns An optional function to grant the user autocompletion of inputs.
+ * @param presetValues Optional values to pre-fill each input with, such as the current values when editing.
  * @returns An array of strings matching the user prompts given.
  */
-export const correctableInput = (strings: string[], conditions: (((maybeValid: string) => boolean) | undefined)[], completeFns: (((this: void, partial: string) => string[]) | undefined)[]): LuaMultiReturn<string[]> => {
+export const correctableInput = (strings: string[], conditions: (((maybeValid: string) => boolean) | undefined)[], completeFns: (((this: void, partial: string) => string[]) | undefined)[], presetValues: string[] = []): LuaMultiReturn<string[]> => {
     conditions = conditions ?? [];
-    const defaultValues: string[] = [];
+    const defaultValues: string[] = [...presetValues];
     do {
         let i = 0;
         while (i < strings.length) {
@@ -195,6 +220,44 @@ export const displayPages = (lines: string[], fullscreen: boolean = true) => {
         currentPage = nextPageInt ?? currentPage + 1;
     }
 }
+/**
+ * Allow a user to scroll through a large amount of text using the keyboard, with a fixed footer.
+ * Lines are cut to the width of the terminal, and can be scrolled horizontally.
+ * The arrow keys scroll by a line or character, and page up / page down scroll by a page. Enter exits.
+ * @param lines The strings to scroll through.
+ * @param footer The strings to display below the scrolled lines, such as totals.
+ */
+export const displayScrollable = (lines: string[], footer: string[] = []) => {
+    const [width, height] = term.getSize();
+    // the last line is used for help text
+    const pageSize = height - footer.length - 1;
+    const maxOffset = math.max(0, lines.length - pageSize);
+    let offset = 0;
+    let xOffset = 0;
+    while (true) {
+        term.clear();
+        for (const i of $range(0, pageSize - 1)) {
+            term.setCursorPos(1, i + 1);
+            term.write(string.sub(lines[i + offset] ?? "", xOffset + 1, xOffset + width));
+        }
+        for (const i of $range(0, footer.length - 1)) {
+            term.setCursorPos(1, pageSize + i + 1);
+            term.write(string.sub(footer[i], 1, width));
+        }
+        term.setCursorPos(1, height);
+        term.write(string.sub("Arrows / PgUp / PgDn to scroll, Enter to exit.", 1, width));
+        const [, key] = os.pullEvent("key");
+        if (key === keys.enter || key === keys.numPadEnter) break;
+        if (key === keys.down) offset = math.min(offset + 1, maxOffset);
+        if (key === keys.up) offset = math.max(offset - 1, 0);
+        if (key === keys.pageDown) offset = math.min(offset + pageSize, maxOffset);
+        if (key === keys.pageUp) offset = math.max(offset - pageSize, 0);
+        if (key === keys.right) xOffset++;
+        if (key === keys.left) xOffset = math.max(xOffset - 1, 0);
+    }
+    term.clear();
+    term.setCursorPos(1, 1);
+}
 /**
  * This function should be repeatedly called with its return values.
  * It will set the fifth return value to true when the input is complete.
@@ -328,8 +391,15 @@ export const stringSearch = (searchSpace: string[], query: string): string[] =>
  * Allow a user to search a large amount of text at their own pace.
  * @param lines The strings to search through.
  * @param height The maximum amount of strings to display at once.
+ * @param describe Extends a line when it is displayed, for details too slow to find for every line. Each line is extended once.
  */
-export const displaySearch = (lines: string[], fullscreen: boolean = true) => {
+export const displaySearch = (lines: string[], fullscreen: boolean = true, describe?: (line: string) => string) => {
+    const described = new LuaMap<string, string>();
+    const getDisplayed = (line: string) => {
+        if (describe === undefined) return line;
+        if (!described.has(line)) described.set(line, describe(line));
+        return described.get(line)!;
+    }
     let y = 1;
     if (!fullscreen) y = term.getCursorPos()[1];
     const height = term.getSize()[1] - y + 1;
@@ -345,7 +415,8 @@ export const displaySearch = (lines: string[], fullscreen: boolean = true) => {
         term.setCursorPos(1, y);
         for (const i of $range(0, height - 2)) {
             term.clearLine()
-            print(matchingLines[i + offset] ?? "");
+            const line = matchingLines[i + offset];
+            print(line !== undefined ? getDisplayed(line) : "");
         }
     }
     callback("");